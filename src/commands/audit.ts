@@ -0,0 +1,121 @@
+import chalk from 'chalk';
+import { applyLimit, formatDate } from '../utils/config';
+import { dueTime, parseDueDate, parseOlderThan } from '../utils/dates';
+import { readAudit } from '../storage/index';
+import type { Command } from 'commander';
+import type { AuditEntry, ChangeKind } from '../storage/index';
+
+interface AuditOptions {
+  entity?: string;
+  since?: string;
+  user?: string;
+  format?: 'simple' | 'json';
+  limit?: number;
+}
+
+const ACTION_COLORS: Record<ChangeKind, (text: string) => string> = {
+  created: chalk.green,
+  updated: chalk.cyan,
+  restored: chalk.yellow,
+  trashed: chalk.red,
+  removed: chalk.red
+};
+
+// "--since 7d" means the last seven days; dates work as for --due
+function parseSince(value: string): number {
+  if (/^\d+ ?[a-z]+$/i.test(value.trim())) {
+    return parseOlderThan(value).getTime();
+  }
+  return dueTime(parseDueDate(value));
+}
+
+// "task:abc123" matches one record, "task" every task
+function matchesEntity(entry: AuditEntry, entity: string): boolean {
+  return entity.includes(':') ? entry.entity === entity : entry.entity.startsWith(`${entity}:`);
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null || value === '') return chalk.gray('none');
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function auditCommands(program: Command): void {
+  const auditCmd = program
+    .command('audit')
+    .description('📜 Audit log of who changed what and when');
+
+  auditCmd
+    .command('list')
+    .description('List audit entries, newest first')
+    .option('-e, --entity <entity>', 'only this record (task:<id>, user:<id>, profile:<name>, config:<key>) or type (task)')
+    .option('-s, --since <when>', 'only changes since a date (2024-01-15, today) or within a period (7d, 2w)')
+    .option('-u, --user <name>', 'only changes made by this OS user or --as user id')
+    .option('-f, --format <format>', 'output format (simple, json)', 'simple')
+    .option('--limit <number>', 'limit number of entries', parseInt)
+    .addHelpText('after', `
+
+Every write to tasks, users, profiles, timers, saved queries and config
+files is logged with the OS user, the command line and the changed fields.
+
+Examples:
+  $ pnpm cli audit list
+  $ pnpm cli audit list --entity task:abc123
+  $ pnpm cli audit list --entity user --since 7d
+  $ pnpm cli audit list --since 2024-01-01 --user alice --format json
+`)
+    .action(async (options: AuditOptions) => {
+      let since: number | undefined;
+      if (options.since) {
+        try {
+          since = parseSince(options.since);
+        } catch (error) {
+          console.error(chalk.red(`❌ Invalid --since: ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+      }
+
+      try {
+        let entries = (await readAudit()).reverse();
+
+        if (options.entity) {
+          entries = entries.filter(entry => matchesEntity(entry, options.entity));
+        }
+
+        if (since !== undefined) {
+          entries = entries.filter(entry => new Date(entry.timestamp).getTime() >= since);
+        }
+
+        if (options.user) {
+          entries = entries.filter(entry => entry.user === options.user || entry.actor === options.user);
+        }
+
+        entries = applyLimit(entries, options.limit);
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(entries, null, 2));
+          return;
+        }
+
+        if (entries.length === 0) {
+          console.log(chalk.yellow('No audit entries match.'));
+          return;
+        }
+
+        console.log(chalk.bold.cyan(`\n📜 Audit Log (${entries.length} entries, newest first):\n`));
+        entries.forEach(entry => {
+          const color = ACTION_COLORS[entry.action] || chalk.white;
+          console.log(`${chalk.gray(formatDate(entry.timestamp))}  ${chalk.bold(entry.user)}${entry.actor ? chalk.gray(` as ${entry.actor}`) : ''}  ${chalk.white(entry.entity)}  ${color(entry.action)}`);
+          console.log(chalk.gray(`  $ ${entry.command}`));
+          Object.entries(entry.changes).forEach(([field, change]) => {
+            console.log(`  ${field}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+          });
+          console.log();
+        });
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error reading audit log: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+}
@@ -5,84 +5,15 @@ import ora from 'ora';
 import inquirer from 'inquirer';
 import Table from 'cli-table3';
 import boxen from 'boxen';
-
-const CONFIG_FILE = path.resolve('./demo-files/config.json');
-
-// Default configuration
-const DEFAULT_CONFIG = {
-  theme: 'default',
-  colorOutput: true,
-  dateFormat: 'locale',
-  defaultPriority: 'medium',
-  autoSave: true,
-  maxItems: 100,
-  apiUrl: 'https://api.example.com',
-  timeout: 5000,
-  language: 'en',
-  debug: false
-};
-
-// Helper functions
-async function loadConfig() {
-  try {
-    const data = await fs.readFile(CONFIG_FILE, 'utf8');
-    const config = JSON.parse(data);
-    return { ...DEFAULT_CONFIG, ...config };
-  } catch (error) {
-    return DEFAULT_CONFIG;
-  }
-}
-
-async function saveConfig(config) {
-  await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2));
-}
-
-function validateConfigValue(key, value) {
-  const validators = {
-    theme: (val) => ['default', 'dark', 'light', 'rainbow'].includes(val),
-    colorOutput: (val) => typeof val === 'boolean',
-    dateFormat: (val) => ['locale', 'iso', 'us', 'eu'].includes(val),
-    defaultPriority: (val) => ['low', 'medium', 'high', 'urgent'].includes(val),
-    autoSave: (val) => typeof val === 'boolean',
-    maxItems: (val) => Number.isInteger(val) && val > 0 && val <= 1000,
-    apiUrl: (val) => typeof val === 'string' && val.length > 0,
-    timeout: (val) => Number.isInteger(val) && val > 0,
-    language: (val) => ['en', 'es', 'fr', 'de', 'it'].includes(val),
-    debug: (val) => typeof val === 'boolean'
-  };
-  
-  const validator = validators[key];
-  if (!validator) {
-    return { valid: false, message: `Unknown configuration key: ${key}` };
-  }
-  
-  // Try to convert value if it's a string
-  let convertedValue = value;
-  if (typeof value === 'string') {
-    if (value === 'true') convertedValue = true;
-    else if (value === 'false') convertedValue = false;
-    else if (!isNaN(Number(value)) && !isNaN(parseFloat(value))) convertedValue = parseInt(value);
-  }
-  
-  if (validator(convertedValue)) {
-    return { valid: true, value: convertedValue };
-  }
-  
-  const suggestions = {
-    theme: 'Must be one of: default, dark, light, rainbow',
-    colorOutput: 'Must be true or false',
-    dateFormat: 'Must be one of: locale, iso, us, eu',
-    defaultPriority: 'Must be one of: low, medium, high, urgent',
-    autoSave: 'Must be true or false',
-    maxItems: 'Must be a number between 1 and 1000',
-    apiUrl: 'Must be a valid URL string',
-    timeout: 'Must be a positive number',
-    language: 'Must be one of: en, es, fr, de, it',
-    debug: 'Must be true or false'
-  };
-  
-  return { valid: false, message: suggestions[key] || 'Invalid value' };
-}
+import {
+  DEFAULT_CONFIG,
+  loadConfig,
+  loadWritableConfig,
+  resolveConfig,
+  saveConfig,
+  validateConfigValue
+} from '../utils/config';
+import { supportsSqlite } from '../storage/index';
 
 export function configCommands(program) {
   const configCmd = program
@@ -94,6 +25,8 @@ export function configCommands(program) {
 Examples:
   $ pnpm cli config get theme
   $ pnpm cli config get --all
+  $ pnpm cli config get --all --origin
+  $ pnpm cli --config ./team-config.json config set theme dark
   $ pnpm cli config set theme dark
   $ pnpm cli config set colorOutput false
   $ pnpm cli config list --format table
@@ -112,6 +45,21 @@ Available Configuration Keys:
   timeout        - Request timeout in milliseconds
   language       - Interface language (en, es, fr, de, it)
   debug          - Debug mode (true/false)
+  storage        - Storage backend for users, tasks and profiles (json, sqlite; sqlite
+                   imports the JSON data once and needs Node.js 22.13+)
+  defaultRegion  - Region for phone numbers typed without a country code (US, GB, DE, ...)
+  defaultRole    - Role for commands run without --as (admin, moderator, user, guest)
+
+Resolution Order (later layers win):
+  default        - Built-in defaults
+  user           - $XDG_CONFIG_HOME/demo-cli/config.json (~/.config if unset)
+  project        - demo-files/config.json, found by walking up from the cwd
+  file           - File given with the global --config <path> option
+  env            - DEMO_CLI_* variables, e.g. DEMO_CLI_MAX_ITEMS=20 (not defaultRole)
+  flag           - Global flags (--debug, --no-color)
+
+config set, reset, import and setup write to the --config file when given,
+otherwise to the project file.
 `);
 
   // Get configuration value
@@ -119,19 +67,23 @@ Available Configuration Keys:
     .command('get [key]')
     .description('📖 Get configuration value')
     .option('-a, --all', 'get all configuration values')
+    .option('-o, --origin', 'show which layer each value came from')
     .option('-f, --format <format>', 'output format (json, table, simple)', 'simple')
     .action(async (key, options) => {
       const spinner = ora('Loading configuration...').start();
       
       try {
-        const config = await loadConfig();
+        const { config, sources, files } = await resolveConfig();
         
         spinner.succeed(chalk.green('✅ Configuration loaded!'));
         
         if (options.all || !key) {
           // Show all configuration
           if (options.format === 'json') {
-            console.log(JSON.stringify(config, null, 2));
+            const output = options.origin
+              ? Object.fromEntries(Object.entries(config).map(([k, v]) => [k, { value: v, source: sources[k] }]))
+              : config;
+            console.log(JSON.stringify(output, null, 2));
             return;
           }
           
@@ -139,16 +91,17 @@ Available Configuration Keys:
           
           if (options.format === 'table') {
             const table = new Table({
-              head: ['Key', 'Value', 'Type'].map(h => chalk.cyan(h)),
+              head: ['Key', 'Value', 'Type', ...(options.origin ? ['Source'] : [])].map(h => chalk.cyan(h)),
               style: { border: ['gray'] },
-              colWidths: [20, 30, 15]
+              colWidths: options.origin ? [20, 30, 15, 12] : [20, 30, 15]
             });
             
             Object.entries(config).forEach(([k, v]) => {
               table.push([
                 k,
                 typeof v === 'object' ? JSON.stringify(v) : String(v),
-                typeof v
+                typeof v,
+                ...(options.origin ? [sources[k]] : [])
               ]);
             });
             
@@ -156,7 +109,15 @@ Available Configuration Keys:
           } else {
             Object.entries(config).forEach(([k, v]) => {
               const valueStr = typeof v === 'object' ? JSON.stringify(v) : String(v);
-              console.log(`${chalk.yellow(k.padEnd(18))} : ${chalk.white(valueStr)} ${chalk.gray(`(${typeof v})`)}`);
+              const origin = options.origin ? ` ${chalk.magenta(`[${sources[k]}]`)}` : '';
+              console.log(`${chalk.yellow(k.padEnd(18))} : ${chalk.white(valueStr)} ${chalk.gray(`(${typeof v})`)}${origin}`);
+            });
+          }
+          
+          if (options.origin && Object.keys(files).length > 0) {
+            console.log(chalk.bold('\nConfig files:'));
+            Object.entries(files).forEach(([layer, file]) => {
+              console.log(`  ${chalk.magenta(layer.padEnd(8))} ${chalk.gray(file)}`);
             });
           }
         } else {
@@ -164,18 +125,20 @@ Available Configuration Keys:
           if (!(key in config)) {
             console.error(chalk.red(`❌ Configuration key "${key}" not found!`));
             console.log(chalk.yellow('Available keys:'), Object.keys(config).join(', '));
+            process.exitCode = 1;
             return;
           }
           
           const value = config[key];
           
           if (options.format === 'json') {
-            console.log(JSON.stringify({ [key]: value }, null, 2));
+            console.log(JSON.stringify(options.origin ? { [key]: { value, source: sources[key] } } : { [key]: value }, null, 2));
           } else {
             console.log(boxen(
               `${chalk.bold('Key:')} ${key}\n` +
               `${chalk.bold('Value:')} ${typeof value === 'object' ? JSON.stringify(value) : String(value)}\n` +
-              `${chalk.bold('Type:')} ${typeof value}`,
+              `${chalk.bold('Type:')} ${typeof value}\n` +
+              `${chalk.bold('Source:')} ${sources[key]}${files[sources[key]] ? ` (${files[sources[key]]})` : ''}`,
               {
                 padding: 1,
                 borderColor: 'blue'
@@ -186,6 +149,7 @@ Available Configuration Keys:
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error loading configuration: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -203,6 +167,7 @@ Available Configuration Keys:
           const validation = validateConfigValue(key, value);
           if (!validation.valid) {
             console.error(chalk.red(`❌ ${validation.message}`));
+            process.exitCode = 1;
             return;
           }
           value = validation.value;
@@ -211,8 +176,9 @@ Available Configuration Keys:
         const oldValue = config[key];
         const spinner = ora('Updating configuration...').start();
         
-        config[key] = value;
-        await saveConfig(config);
+        const fileConfig = await loadWritableConfig();
+        fileConfig[key] = value;
+        await saveConfig(fileConfig);
         
         spinner.succeed(chalk.green('✅ Configuration updated successfully!'));
         
@@ -229,6 +195,7 @@ Available Configuration Keys:
         
       } catch (error) {
         console.error(chalk.red(`❌ Error setting configuration: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -255,7 +222,10 @@ Available Configuration Keys:
           apiUrl: 'Base URL for API requests',
           timeout: 'Network request timeout in milliseconds',
           language: 'Interface language code',
-          debug: 'Enable debug mode for troubleshooting'
+          debug: 'Enable debug mode for troubleshooting',
+          storage: 'Storage backend for users, tasks and profiles (sqlite needs Node.js 22.13+)',
+          defaultRegion: 'Region for user phone numbers typed without a country code',
+          defaultRole: 'Role for commands run without --as or DEMO_CLI_USER'
         };
         
         console.log(chalk.bold.cyan('\n⚙️ Configuration Settings:\n'));
@@ -287,6 +257,7 @@ Available Configuration Keys:
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error loading configuration: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -304,6 +275,7 @@ Available Configuration Keys:
           // Reset specific key
           if (!(options.key in DEFAULT_CONFIG)) {
             console.error(chalk.red(`❌ Unknown configuration key: ${options.key}`));
+            process.exitCode = 1;
             return;
           }
           
@@ -323,17 +295,21 @@ Available Configuration Keys:
             }
           }
           
+          // Dropping the key from the writable layer lets lower layers show through
           const oldValue = config[options.key];
-          config[options.key] = DEFAULT_CONFIG[options.key];
+          const fileConfig = await loadWritableConfig();
+          delete fileConfig[options.key];
           
           const spinner = ora('Resetting configuration key...').start();
-          await saveConfig(config);
+          await saveConfig(fileConfig);
           spinner.succeed(chalk.green(`✅ Configuration key "${options.key}" reset!`));
           
+          const { config: resetConfig, sources } = await resolveConfig();
           console.log(boxen(
             `${chalk.bold('Key:')} ${options.key}\n` +
             `${chalk.bold('Old Value:')} ${String(oldValue)}\n` +
-            `${chalk.bold('New Value:')} ${String(DEFAULT_CONFIG[options.key])}`,
+            `${chalk.bold('New Value:')} ${String(resetConfig[options.key])}\n` +
+            `${chalk.bold('Source:')} ${sources[options.key]}`,
             {
               padding: 1,
               borderColor: 'yellow'
@@ -347,7 +323,7 @@ Available Configuration Keys:
               {
                 type: 'confirm',
                 name: 'confirm',
-                message: 'Reset ALL configuration to defaults? This cannot be undone.',
+                message: 'Reset ALL configuration to defaults? (demo-cli undo reverts it)',
                 default: false
               }
             ]);
@@ -358,13 +334,21 @@ Available Configuration Keys:
             }
           }
           
+          // Clear the writable layer rather than writing defaults into it, which
+          // would shadow the user file and every other lower layer
           const spinner = ora('Resetting configuration...').start();
-          await saveConfig(DEFAULT_CONFIG);
+          await saveConfig({});
           spinner.succeed(chalk.green('✅ Configuration reset to defaults!'));
+          
+          const { files } = await resolveConfig();
+          if (files.user) {
+            console.log(chalk.gray(`Settings from ${files.user} still apply.`));
+          }
         }
         
       } catch (error) {
         console.error(chalk.red(`❌ Error resetting configuration: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -395,6 +379,7 @@ Available Configuration Keys:
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error exporting configuration: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -413,6 +398,7 @@ Available Configuration Keys:
           await fs.access(importPath);
         } catch (error) {
           console.error(chalk.red(`❌ File not found: ${filename}`));
+          process.exitCode = 1;
           return;
         }
         
@@ -436,13 +422,14 @@ Available Configuration Keys:
           spinner.fail(chalk.red('❌ Validation errors found:'));
           validationErrors.forEach(error => console.log(chalk.red(`  • ${error}`)));
           console.log(chalk.yellow('\nUse --force to ignore validation errors.'));
+          process.exitCode = 1;
           return;
         }
         
         let finalConfig = importConfig;
         
         if (options.merge) {
-          const currentConfig = await loadConfig();
+          const currentConfig = await loadWritableConfig();
           finalConfig = { ...currentConfig, ...importConfig };
         }
         
@@ -481,6 +468,7 @@ Available Configuration Keys:
         
       } catch (error) {
         console.error(chalk.red(`❌ Error importing configuration: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -555,12 +543,22 @@ Available Configuration Keys:
             name: 'debug',
             message: 'Enable debug mode?',
             default: currentConfig.debug
+          },
+          {
+            type: 'list',
+            name: 'storage',
+            message: 'Storage backend:',
+            choices: [
+              { name: 'JSON files in demo-files/ (default)', value: 'json' },
+              { name: 'SQLite database (Node.js 22.13+)', value: 'sqlite', disabled: supportsSqlite() ? false : `not available on Node.js ${process.version}` }
+            ],
+            default: currentConfig.storage
           }
         ]);
         
         const spinner = ora('Saving configuration...').start();
         
-        const newConfig = { ...currentConfig, ...answers };
+        const newConfig = { ...(await loadWritableConfig()), ...answers };
         await saveConfig(newConfig);
         
         spinner.succeed(chalk.green('✅ Configuration saved successfully!'));
@@ -580,6 +578,7 @@ Available Configuration Keys:
         
       } catch (error) {
         console.error(chalk.red(`❌ Error in configuration setup: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 }
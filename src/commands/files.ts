@@ -4,6 +4,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
 import boxen from 'boxen';
+import { applyLimit, formatDate } from '../utils/config';
 import type { Command } from 'commander';
 import type { FileOptions } from '../types/index';
 
@@ -94,6 +95,7 @@ Note: All files are created/managed in the 'demo-files' directory.
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         spinner.fail(chalk.red(`❌ Error creating file: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -119,8 +121,8 @@ Note: All files are created/managed in the 'demo-files' directory.
           console.log(boxen(
             `${chalk.bold('File Statistics')}\n` +
             `${chalk.bold('Size:')} ${stats.size} bytes\n` +
-            `${chalk.bold('Created:')} ${stats.birthtime.toLocaleString()}\n` +
-            `${chalk.bold('Modified:')} ${stats.mtime.toLocaleString()}\n` +
+            `${chalk.bold('Created:')} ${formatDate(stats.birthtime)}\n` +
+            `${chalk.bold('Modified:')} ${formatDate(stats.mtime)}\n` +
             `${chalk.bold('Lines:')} ${content.split('\n').length}`,
             {
               padding: 1,
@@ -147,6 +149,7 @@ Note: All files are created/managed in the 'demo-files' directory.
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         spinner.fail(chalk.red(`❌ Error reading file: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -178,6 +181,8 @@ Note: All files are created/managed in the 'demo-files' directory.
           filteredFiles = filteredFiles.filter(file => path.extname(file) === ext);
         }
         
+        filteredFiles = applyLimit(filteredFiles);
+        
         spinner.succeed(chalk.green(`✅ Found ${filteredFiles.length} files`));
         
         if (filteredFiles.length === 0) {
@@ -194,7 +199,7 @@ Note: All files are created/managed in the 'demo-files' directory.
           if (options.detailed) {
             const size = stats.isDirectory() ? 'DIR' : `${stats.size}B`;
             const type = stats.isDirectory() ? '📁' : '📄';
-            const modified = stats.mtime.toLocaleDateString();
+            const modified = formatDate(stats.mtime, false);
             
             console.log(`${type} ${chalk.white(file.padEnd(30))} ${chalk.gray(size.padEnd(10))} ${chalk.gray(modified)}`);
           } else {
@@ -206,6 +211,7 @@ Note: All files are created/managed in the 'demo-files' directory.
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         spinner.fail(chalk.red(`❌ Error listing files: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -256,6 +262,7 @@ Note: All files are created/managed in the 'demo-files' directory.
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red(`❌ Error deleting file: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -308,6 +315,7 @@ Note: All files are created/managed in the 'demo-files' directory.
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         spinner.fail(chalk.red(`❌ Error copying file: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 }
@@ -0,0 +1,168 @@
+import chalk from 'chalk';
+import { applyLimit, formatDate } from '../utils/config';
+import { changeKind, getRepository, listOperations, redoOperation, undoOperation } from '../storage/index';
+import { assertPermission, revertPermissions } from '../utils/permissions';
+import { emailOwner } from '../utils/users';
+import type { Command } from 'commander';
+import type { ChangeKind, JournalEntry } from '../storage/index';
+import type { User } from '../types/index';
+
+// "tasks: 1 created, 2 updated; users: 1 trashed"
+function describeChanges(entry: JournalEntry): string {
+  const counts = new Map<string, Record<ChangeKind, number>>();
+  entry.changes.forEach(change => {
+    const count = counts.get(change.target.collection) || { created: 0, updated: 0, trashed: 0, restored: 0, removed: 0 };
+    count[changeKind(change)]++;
+    counts.set(change.target.collection, count);
+  });
+
+  return [...counts.entries()]
+    .map(([collection, count]) => {
+      const parts = Object.entries(count).filter(([, n]) => n > 0).map(([kind, n]) => `${n} ${kind}`);
+      return `${collection}: ${parts.join(', ')}`;
+    })
+    .join('; ');
+}
+
+// Reverting changes needs the permission it took to make them
+function checkRevertPermission(entry: JournalEntry, verb: string): void {
+  revertPermissions(entry).forEach(permission => assertPermission(permission, `${verb} "${entry.command}"`));
+}
+
+// Undo and redo can bring back a user, or an old email, that another user
+// has taken since. This holds even with --force: emails stay unique.
+async function checkUserEmails(entry: JournalEntry, direction: 'undo' | 'redo'): Promise<void> {
+  const wanted = new Map<string, User | undefined>();
+  entry.changes
+    .filter(change => change.target.collection === 'users')
+    .forEach(change => {
+      if (direction === 'redo') wanted.set(change.key, change.after);
+      else if (!wanted.has(change.key)) wanted.set(change.key, change.before);
+    });
+  if (wanted.size === 0) return;
+
+  const active = [...wanted.values()].filter(user => user && !user.deletedAt);
+  const users = [
+    ...(await getRepository<User>('users').list()).filter(user => !wanted.has(user.id)),
+    ...active
+  ];
+  for (const user of active) {
+    const owner = emailOwner(users, user.email, user.id);
+    if (owner) {
+      throw new Error(
+        `"${entry.command}" would give ${user.name} (${user.id}) the email ${user.email}, ` +
+        `which now belongs to ${owner.name} (${owner.id})`
+      );
+    }
+  }
+}
+
+function parseCount(value: string | undefined): number {
+  const count = value === undefined ? 1 : Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid count "${value}". Must be a positive whole number`);
+  }
+  return count;
+}
+
+export function historyCommands(program: Command): void {
+  program
+    .command('history')
+    .description('🕘 Show recent operations that can be undone or redone')
+    .option('--limit <number>', 'number of operations to show', parseInt)
+    .addHelpText('after', `
+
+Every command that changes tasks, users, profiles or configuration is
+recorded with the records it changed, so it can be reverted with undo.
+
+Examples:
+  $ pnpm cli history
+  $ pnpm cli history --limit 5
+`)
+    .action(async (options: { limit?: number }) => {
+      try {
+        const entries = applyLimit((await listOperations()).reverse(), options.limit);
+
+        if (entries.length === 0) {
+          console.log(chalk.yellow('No operations recorded yet.'));
+          return;
+        }
+
+        console.log(chalk.bold.cyan('\n🕘 Operation History (newest first):\n'));
+        entries.forEach((entry, index) => {
+          const status = entry.undone ? chalk.yellow(' (undone)') : '';
+          console.log(`${chalk.gray(`${index + 1}.`)} ${chalk.white.bold(entry.command)}${status}`);
+          console.log(chalk.gray(`   ${formatDate(entry.timestamp)} | ${describeChanges(entry)}`));
+        });
+        console.log();
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error reading history: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command('undo [count]')
+    .description('↩️ Undo the last operation, or the last <count> operations')
+    .option('-f, --force', 'undo even if the records were changed since')
+    .addHelpText('after', `
+
+Examples:
+  $ pnpm cli undo
+  $ pnpm cli undo 3
+`)
+    .action(async (count: string | undefined, options: { force?: boolean }) => {
+      try {
+        const entries = (await listOperations()).filter(entry => !entry.undone).slice(-parseCount(count)).reverse();
+
+        if (entries.length === 0) {
+          console.log(chalk.yellow('Nothing to undo.'));
+          return;
+        }
+
+        for (const entry of entries) {
+          checkRevertPermission(entry, 'undoing');
+          await checkUserEmails(entry, 'undo');
+          await undoOperation(entry, options.force);
+          console.log(chalk.green(`↩️  Undid "${entry.command}" (${describeChanges(entry)})`));
+        }
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error undoing: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command('redo [count]')
+    .description('↪️ Redo the last undone operation, or the last <count> undone operations')
+    .option('-f, --force', 'redo even if the records were changed since')
+    .addHelpText('after', `
+
+Examples:
+  $ pnpm cli redo
+  $ pnpm cli redo 2
+`)
+    .action(async (count: string | undefined, options: { force?: boolean }) => {
+      try {
+        const entries = (await listOperations()).filter(entry => entry.undone).slice(0, parseCount(count));
+
+        if (entries.length === 0) {
+          console.log(chalk.yellow('Nothing to redo.'));
+          return;
+        }
+
+        for (const entry of entries) {
+          checkRevertPermission(entry, 'redoing');
+          await checkUserEmails(entry, 'redo');
+          await redoOperation(entry, options.force);
+          console.log(chalk.green(`↪️  Redid "${entry.command}" (${describeChanges(entry)})`));
+        }
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error redoing: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+}
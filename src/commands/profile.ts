@@ -5,10 +5,19 @@ import inquirer from 'inquirer';
 import boxen from 'boxen';
 import Table from 'cli-table3';
 import figlet from 'figlet';
+import { applyLimit, formatDate } from '../utils/config';
+import { getRepository } from '../storage/index';
+import type { Repository } from '../storage/index';
 import { ProfileOptions, ProfileData, Theme, Skill, Operation } from '../types/index';
 
-// Mock database for profiles
-const profiles: Map<string, ProfileData> = new Map();
+// Profiles are keyed by lower-cased name; createdAt is stored as an ISO string
+export function profileRepository(): Repository<ProfileData> {
+  return getRepository<ProfileData>('profiles', {
+    key: profile => profile.name.toLowerCase(),
+    serialize: profile => ({ ...profile, createdAt: profile.createdAt.toISOString() }),
+    deserialize: record => ({ ...record, createdAt: new Date(record.createdAt) })
+  });
+}
 
 export function createProfileCommand(): Command {
   const profileCmd = new Command('profile')
@@ -235,10 +244,11 @@ ${chalk.yellow('💡 This command demonstrates:')}
             case 'validate':
               opSpinner.succeed(`✅ Profile validated successfully`);
               break;
-            case 'save':
-              profiles.set(profileData.name.toLowerCase(), profileData);
+            case 'save': {
+              await profileRepository().save(profileData);
               opSpinner.succeed(`💾 Profile saved to database`);
               break;
+            }
             case 'email':
               opSpinner.succeed(`📧 Welcome email sent to ${profileData.email}`);
               break;
@@ -301,16 +311,17 @@ ${chalk.yellow('💡 This command demonstrates:')}
     .argument('<name>', 'Profile name to view')
     .option('-f, --format <format>', 'Display format (box, table, json)', 'box')
     .action(async (name: string, options: { format?: string }) => {
-      const profile = profiles.get(name.toLowerCase());
+      const profile = await profileRepository().get(name.toLowerCase());
       
       if (!profile) {
         console.log(chalk.red(`❌ Profile '${name}' not found`));
         
-        const availableProfiles = Array.from(profiles.keys());
+        const availableProfiles = (await profileRepository().list()).map(p => p.name.toLowerCase());
         if (availableProfiles.length > 0) {
           console.log(chalk.gray('\nAvailable profiles:'));
           availableProfiles.forEach(p => console.log(chalk.blue(`  • ${p}`)));
         }
+        process.exitCode = 1;
         return;
       }
 
@@ -336,7 +347,7 @@ ${chalk.yellow('💡 This command demonstrates:')}
     .option('--role <role>', 'Filter by role')
     .option('--theme <theme>', 'Filter by theme')
     .action(async (options: { format?: string; role?: string; theme?: string }) => {
-      let profileList = Array.from(profiles.values());
+      let profileList = await profileRepository().list();
 
       // Apply filters
       if (options.role) {
@@ -351,6 +362,8 @@ ${chalk.yellow('💡 This command demonstrates:')}
         return;
       }
 
+      profileList = applyLimit(profileList);
+
       console.log(chalk.blue(`👥 Found ${profileList.length} profile(s)\n`));
 
       if (options.format === 'simple') {
@@ -389,10 +402,11 @@ ${chalk.yellow('💡 This command demonstrates:')}
     .option('-t, --theme <theme>', 'New theme')
     .option('-s, --skills <skills>', 'New skills (comma-separated)')
     .action(async (name: string, options: ProfileOptions) => {
-      const profile = profiles.get(name.toLowerCase());
+      const profile = await profileRepository().get(name.toLowerCase());
       
       if (!profile) {
         console.log(chalk.red(`❌ Profile '${name}' not found`));
+        process.exitCode = 1;
         return;
       }
 
@@ -428,7 +442,7 @@ ${chalk.yellow('💡 This command demonstrates:')}
         if (options.skills) profile.skills = options.skills.split(',').map((s: string) => s.trim() as Skill);
       }
 
-      profiles.set(name.toLowerCase(), profile);
+      await profileRepository().save(profile);
       console.log(chalk.green('✅ Profile updated successfully!'));
       displayProfileBox(profile);
     });
@@ -440,10 +454,11 @@ ${chalk.yellow('💡 This command demonstrates:')}
     .argument('<name>', 'Profile name to delete')
     .option('-f, --force', 'Skip confirmation')
     .action(async (name: string, options: { force?: boolean }) => {
-      const profile = profiles.get(name.toLowerCase());
+      const profile = await profileRepository().get(name.toLowerCase());
       
       if (!profile) {
         console.log(chalk.red(`❌ Profile '${name}' not found`));
+        process.exitCode = 1;
         return;
       }
 
@@ -461,7 +476,7 @@ ${chalk.yellow('💡 This command demonstrates:')}
         }
       }
 
-      profiles.delete(name.toLowerCase());
+      await profileRepository().remove(name.toLowerCase());
       console.log(chalk.green(`✅ Profile '${name}' deleted successfully`));
     });
 
@@ -479,7 +494,7 @@ function displayProfileBox(profile: ProfileData) {
     `${chalk.bold('Theme:')} ${getThemeEmoji(profile.theme)} ${profile.theme}`,
     `${chalk.bold('Skills:')} ${profile.skills.map((s: Skill) => chalk.blue(s)).join(', ')}`,
     `${chalk.bold('Status:')} ${profile.isActive ? chalk.green('Active') : chalk.red('Inactive')}`,
-    `${chalk.bold('Created:')} ${profile.createdAt.toLocaleDateString()}`
+    `${chalk.bold('Created:')} ${formatDate(profile.createdAt, false)}`
   ].join('\n');
 
   console.log(boxen(content, {
@@ -507,7 +522,7 @@ function displayProfileTable(profile: ProfileData) {
     ['Theme', getThemeEmoji(profile.theme) + ' ' + profile.theme],
     ['Skills', profile.skills.join(', ')],
     ['Status', profile.isActive ? chalk.green('Active') : chalk.red('Inactive')],
-    ['Created', profile.createdAt.toLocaleDateString()]
+    ['Created', formatDate(profile.createdAt, false)]
   );
 
   console.log(table.toString());
@@ -0,0 +1,205 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { applyLimit } from '../utils/config';
+import { getRepository, isDataFile } from '../storage/index';
+import { profileRepository } from './profile';
+import { formatScore, fuzzyMatch, fuzzySearch, highlight } from '../utils/fuzzy';
+import type { Dirent } from 'fs';
+import type { Command } from 'commander';
+import type { FuzzyResult } from '../utils/fuzzy';
+import type { ProfileData, Task, User } from '../types/index';
+
+const SEARCH_TYPES = ['tasks', 'users', 'profiles', 'files'];
+
+// File contents are only searched for plain-text files of a reasonable size
+const TEXT_EXTENSIONS = ['.txt', '.md', '.log', '.csv', '.html', '.js', '.ts', '.yml', '.yaml'];
+const MAX_CONTENT_SIZE = 1024 * 1024;
+
+interface FileHit {
+  file: string;
+  line?: string;
+  lineNumber?: number;
+}
+
+function searchTasks(tasks: Task[], term: string): FuzzyResult<Task>[] {
+  return fuzzySearch(tasks, term, {
+    title: { value: task => task.title },
+    description: { value: task => task.description, weight: 0.8 },
+    tags: { value: task => task.tags.join(' '), weight: 0.7 }
+  });
+}
+
+function searchUsers(users: User[], term: string): FuzzyResult<User>[] {
+  return fuzzySearch(users, term, {
+    name: { value: user => user.name },
+    email: { value: user => user.email, weight: 0.9 }
+  });
+}
+
+function searchProfiles(profiles: ProfileData[], term: string): FuzzyResult<ProfileData>[] {
+  return fuzzySearch(profiles, term, {
+    name: { value: profile => profile.name },
+    email: { value: profile => profile.email, weight: 0.9 },
+    skills: { value: profile => profile.skills.join(' '), weight: 0.7 }
+  });
+}
+
+// User files only: the CLI's own stores and logs would leak deleted records.
+// Paths are relative to `root`; the walk passes each directory down itself
+// (Dirent#parentPath is missing before Node 20.12).
+async function listFiles(dir: string, root = dir): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const filePath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(filePath, root));
+    } else if (entry.isFile() && !/\.(lock|tmp|db)$/.test(entry.name) && !isDataFile(filePath)) {
+      files.push(path.relative(root, filePath));
+    }
+  }
+  return files;
+}
+
+// Match file names, and the best line of plain-text files
+async function searchFiles(dir: string, term: string): Promise<FuzzyResult<FileHit>[]> {
+  const results: FuzzyResult<FileHit>[] = [];
+
+  for (const file of await listFiles(dir)) {
+    const nameMatch = fuzzyMatch(term, file);
+    let best: FuzzyResult<FileHit> | undefined = nameMatch
+      ? { item: { file }, score: nameMatch.score, matches: { file: nameMatch.positions } }
+      : undefined;
+
+    const filePath = path.join(dir, file);
+    if (TEXT_EXTENSIONS.includes(path.extname(file).toLowerCase()) && (await fs.stat(filePath)).size <= MAX_CONTENT_SIZE) {
+      const lines = (await fs.readFile(filePath, 'utf8')).split('\n');
+      lines.forEach((line, index) => {
+        const lineMatch = fuzzyMatch(term, line);
+        const score = lineMatch ? lineMatch.score * 0.8 : 0;
+        if (lineMatch && (!best || score > best.score)) {
+          best = {
+            item: { file, line: line.trim(), lineNumber: index + 1 },
+            score,
+            matches: { line: fuzzyMatch(term, line.trim())?.positions || [] }
+          };
+        }
+      });
+    }
+
+    if (best) results.push(best);
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+export function searchCommands(program: Command): void {
+  program
+    .command('search <term>')
+    .description('🔎 Fuzzy search across tasks, users, profiles and files')
+    .option('--type <types>', `comma-separated types to search (${SEARCH_TYPES.join(', ')})`)
+    .option('--limit <number>', 'maximum results per type', parseInt)
+    .addHelpText('after', `
+
+Examples:
+  $ pnpm cli search "documentation"
+  $ pnpm cli search jonh --type users,profiles
+  $ pnpm cli search "release notes" --limit 5
+`)
+    .action(async (term: string, options: { type?: string; limit?: number }) => {
+      const types = options.type ? options.type.split(',').map(type => type.trim()) : SEARCH_TYPES;
+      const invalid = types.filter(type => !SEARCH_TYPES.includes(type));
+      if (invalid.length > 0) {
+        console.error(chalk.red(`❌ Invalid type(s): ${invalid.join(', ')}. Must be one of: ${SEARCH_TYPES.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+
+      const spinner = ora(`Searching for "${term}"...`).start();
+
+      try {
+        const tasks = types.includes('tasks')
+          ? applyLimit(searchTasks(await getRepository<Task>('tasks').list(), term), options.limit)
+          : [];
+        const users = types.includes('users')
+          ? applyLimit(searchUsers(await getRepository<User>('users').list(), term), options.limit)
+          : [];
+        const profiles = types.includes('profiles')
+          ? applyLimit(searchProfiles(await profileRepository().list(), term), options.limit)
+          : [];
+        const files = types.includes('files')
+          ? applyLimit(await searchFiles(path.resolve('demo-files'), term), options.limit)
+          : [];
+
+        const total = tasks.length + users.length + profiles.length + files.length;
+        spinner.succeed(chalk.green(`✅ Found ${total} results for "${term}"`));
+
+        if (total === 0) {
+          console.log(chalk.yellow('Nothing matches. Try fewer or shorter words.'));
+          return;
+        }
+
+        const score = (result: FuzzyResult<unknown>) => chalk.gray(formatScore(result.score));
+
+        if (tasks.length > 0) {
+          console.log(chalk.bold.cyan(`\n📋 Tasks (${tasks.length})`));
+          tasks.forEach(result => {
+            const task = result.item;
+            console.log(`  ${chalk.white.bold(highlight(task.title, result.matches.title))} ${chalk.gray(`(${task.id})`)} ${task.status} ${score(result)}`);
+            if (result.matches.description) {
+              console.log(`    📝 ${highlight(task.description, result.matches.description)}`);
+            }
+            if (result.matches.tags) {
+              console.log(`    🏷️  ${highlight(task.tags.join(' '), result.matches.tags)}`);
+            }
+          });
+        }
+
+        if (users.length > 0) {
+          console.log(chalk.bold.cyan(`\n👥 Users (${users.length})`));
+          users.forEach(result => {
+            const user = result.item;
+            console.log(`  ${chalk.white.bold(highlight(user.name, result.matches.name))} ${chalk.gray(`(${user.id})`)} 📧 ${highlight(user.email, result.matches.email)} ${score(result)}`);
+          });
+        }
+
+        if (profiles.length > 0) {
+          console.log(chalk.bold.cyan(`\n👤 Profiles (${profiles.length})`));
+          profiles.forEach(result => {
+            const profile = result.item;
+            const email = profile.email ? ` 📧 ${highlight(profile.email, result.matches.email)}` : '';
+            console.log(`  ${chalk.white.bold(highlight(profile.name, result.matches.name))} ${chalk.gray(profile.role)}${email} ${score(result)}`);
+            if (result.matches.skills) {
+              console.log(`    🛠️  ${highlight(profile.skills.join(' '), result.matches.skills)}`);
+            }
+          });
+        }
+
+        if (files.length > 0) {
+          console.log(chalk.bold.cyan(`\n📁 Files (${files.length})`));
+          files.forEach(result => {
+            const hit = result.item;
+            console.log(`  ${chalk.white.bold(highlight(hit.file, result.matches.file))} ${score(result)}`);
+            if (hit.line !== undefined) {
+              console.log(`    ${chalk.gray(`${hit.lineNumber}:`)} ${highlight(hit.line, result.matches.line)}`);
+            }
+          });
+        }
+
+        console.log();
+
+      } catch (error) {
+        spinner.fail(chalk.red(`❌ Error searching: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+}
@@ -6,7 +6,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import Table from 'cli-table3';
 import boxen from 'boxen';
-import gradient from 'gradient-string';
+import { formatDate, themeGradient } from '../utils/config';
 
 // Helper functions
 function formatBytes(bytes) {
@@ -208,7 +208,7 @@ Examples:
         }
         
         // Display header
-        const title = gradient.rainbow('System Information');
+        const title = themeGradient('System Information');
         console.log(`\n${title}\n`);
         
         if (options.format === 'table') {
@@ -314,6 +314,7 @@ Examples:
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error gathering system info: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -332,7 +333,7 @@ Examples:
         
         spinner.succeed(chalk.green('✅ Health check completed!'));
         
-        console.log(gradient.rainbow('\n🏥 System Health Report\n'));
+        console.log(themeGradient('\n🏥 System Health Report\n'));
         
         // Memory health
         const memUsage = parseFloat(memory.usagePercent.replace('%', ''));
@@ -366,7 +367,7 @@ Examples:
         
         console.log(boxen(
           `${chalk.bold('Overall System Status:')} ${overallStatus}\n` +
-          `${chalk.bold('Timestamp:')} ${new Date().toLocaleString()}`,
+          `${chalk.bold('Timestamp:')} ${formatDate(new Date())}`,
           {
             padding: 1,
             borderColor: issues === 0 ? 'green' : issues === 1 ? 'yellow' : 'red',
@@ -377,6 +378,7 @@ Examples:
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error checking system health: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -400,7 +402,7 @@ Examples:
         try {
           const memory = getMemoryUsage();
           const loadavg = os.loadavg();
-          const timestamp = new Date().toLocaleTimeString();
+          const timestamp = formatDate(new Date());
           
           console.log(`${chalk.gray(timestamp)} | ` +
             `${chalk.blue('Memory:')} ${memory.usagePercent} | ` +
@@ -416,6 +418,7 @@ Examples:
           
         } catch (error) {
           console.error(chalk.red(`❌ Monitor error: ${error.message}`));
+          process.exitCode = 1;
           clearInterval(monitor);
         }
       }, options.interval * 1000);
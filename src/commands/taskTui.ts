@@ -0,0 +1,331 @@
+import readline from 'readline';
+import chalk from 'chalk';
+import { formatDate, themeGradient } from '../utils/config';
+import { getRepository, startOperation } from '../storage/index';
+import { dueTime, isPastDue } from '../utils/dates';
+import { isOpenTask } from '../utils/dependencies';
+import { detachSubtasks } from '../utils/subtasks';
+import {
+  PRIORITIES,
+  applyTaskUpdate,
+  getPriorityIcon,
+  getStatusIcon,
+  promptTaskUpdates,
+  validateTaskUpdate
+} from '../utils/tasks';
+import type { Repository } from '../storage/index';
+import type { ActiveTimer, Task } from '../types/index';
+
+interface TuiState {
+  tasks: Task[];
+  filter: string;
+  filtering: boolean;
+  selected: number;
+  offset: number;
+  message: string;
+  confirmDelete: boolean;
+  busy: boolean;
+}
+
+const HELP = '↑/↓ move  / filter  c complete  d delete  +/- priority  e edit  q quit';
+
+// Header, filter box, details panel, message and help lines
+const CHROME_LINES = 9;
+
+function taskRepository(): Repository<Task> {
+  return getRepository<Task>('tasks');
+}
+
+function timerRepository(): Repository<ActiveTimer> {
+  return getRepository<ActiveTimer>('timers', { key: timer => timer.taskId });
+}
+
+function truncate(text: string, width: number): string {
+  if (width <= 1) return '…';
+  return text.length > width ? text.substring(0, width - 1) + '…' : text;
+}
+
+// Every word of the filter has to appear somewhere in the task
+function matchesFilter(task: Task, filter: string): boolean {
+  const haystack = [task.id, task.title, task.description, task.status, task.priority, ...task.tags]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return filter.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+// Open tasks first, then by priority and due date
+function visibleTasks(state: TuiState): Task[] {
+  return state.tasks
+    .filter(task => matchesFilter(task, state.filter))
+    .sort((a, b) =>
+      Number(!isOpenTask(a)) - Number(!isOpenTask(b)) ||
+      PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority) ||
+      dueTime(a.due) - dueTime(b.due)
+    );
+}
+
+function render(state: TuiState) {
+  const width = process.stdout.columns || 80;
+  const height = process.stdout.rows || 24;
+  const listHeight = Math.max(3, height - CHROME_LINES);
+  const tasks = visibleTasks(state);
+
+  state.selected = Math.max(0, Math.min(state.selected, tasks.length - 1));
+  if (state.selected < state.offset) state.offset = state.selected;
+  if (state.selected >= state.offset + listHeight) state.offset = state.selected - listHeight + 1;
+
+  const lines: string[] = [];
+  lines.push(themeGradient(`📋 Tasks (${tasks.length} of ${state.tasks.length})`));
+  lines.push(state.filtering
+    ? `${chalk.cyan('Filter:')} ${state.filter}${chalk.inverse(' ')}`
+    : chalk.gray(`Filter: ${state.filter || '(press / to filter)'}`));
+  lines.push('');
+
+  const titleWidth = Math.max(10, width - 32);
+  for (let row = 0; row < listHeight; row++) {
+    const task = tasks[state.offset + row];
+    if (!task) {
+      lines.push('');
+      continue;
+    }
+    const due = task.due ? formatDate(task.due, false) : '';
+    const dueText = isOpenTask(task) && isPastDue(task.due) ? chalk.red(due.padEnd(12)) : chalk.gray(due.padEnd(12));
+    const title = truncate(task.title, titleWidth).padEnd(titleWidth);
+    const line = `${getStatusIcon(task.status)} ${getPriorityIcon(task.priority)} ${title} ${dueText}${chalk.gray(task.id)}`;
+    lines.push(state.offset + row === state.selected ? chalk.inverse(`› ${line}`) : `  ${line}`);
+  }
+
+  const current = tasks[state.selected];
+  lines.push(chalk.gray('─'.repeat(Math.min(width, 80))));
+  if (current) {
+    lines.push(chalk.bold(truncate(`${current.title} (${current.id}) | ${current.status} | ${current.priority}`, width)));
+    lines.push(chalk.gray(truncate(current.description || 'No description', width)));
+    lines.push(chalk.cyan(truncate(current.tags.map(tag => `#${tag}`).join(' '), width)));
+  } else {
+    lines.push(chalk.yellow('No tasks match the filter.'), '', '');
+  }
+
+  lines.push(state.message);
+  lines.push(chalk.gray(truncate(HELP, width)));
+
+  process.stdout.write('\x1b[H\x1b[2J' + lines.join('\n'));
+}
+
+/**
+ * Full-screen task browser. Loads tasks once, applies changes through the
+ * same validation as `task update`, and writes only the changed tasks.
+ */
+export async function runTaskTui(): Promise<void> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    throw new Error('task tui needs an interactive terminal');
+  }
+
+  const state: TuiState = {
+    tasks: await taskRepository().list(),
+    filter: '',
+    filtering: false,
+    selected: 0,
+    offset: 0,
+    message: '',
+    confirmDelete: false,
+    busy: false
+  };
+
+  return new Promise<void>((resolve) => {
+    const onResize = () => render(state);
+
+    const enterScreen = () => {
+      process.stdout.write('\x1b[?1049h\x1b[?25l');
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      process.stdin.on('keypress', onKeypress);
+      process.stdout.on('resize', onResize);
+      render(state);
+    };
+
+    const leaveScreen = () => {
+      process.stdin.off('keypress', onKeypress);
+      process.stdout.off('resize', onResize);
+      process.stdin.setRawMode(false);
+      process.stdout.write('\x1b[?25h\x1b[?1049l');
+    };
+
+    const quit = () => {
+      leaveScreen();
+      process.stdin.pause();
+      resolve();
+    };
+
+    const replaceTask = (updated: Task) => {
+      state.tasks = state.tasks.map(task => task.id === updated.id ? updated : task);
+    };
+
+    const saveUpdate = async (task: Task, changes: Record<string, any>, success: string) => {
+      try {
+        const updates = validateTaskUpdate(task, changes, state.tasks);
+        // Completing stops a running timer, as with task complete
+        const completing = updates.status === 'completed' && task.status !== 'completed';
+        const timer = completing ? await timerRepository().get(task.id) : undefined;
+        const change = applyTaskUpdate(task, updates, new Map(state.tasks.map(t => [t.id, t])), timer);
+        const { task: updatedTask, nextTask, waitingOn = [] } = change;
+        await taskRepository().saveMany([updatedTask, ...(nextTask ? [nextTask] : [])]);
+        if (change.timerStopped) await timerRepository().remove(task.id);
+        replaceTask(updatedTask);
+        if (nextTask) state.tasks.push(nextTask);
+        state.message = chalk.green(`✅ ${success}${nextTask ? ` (next occurrence ${nextTask.id} created)` : ''}`) +
+          (waitingOn.length > 0 ? chalk.yellow(` ⚠️  ${waitingOn.length} prerequisite(s) still open`) : '');
+      } catch (error) {
+        state.message = chalk.red(`❌ ${error.message}`);
+      }
+    };
+
+    const deleteTask = async (task: Task) => {
+      const subtasks = detachSubtasks(task, state.tasks);
+      if (subtasks.length > 0) {
+        await taskRepository().saveMany(subtasks);
+        subtasks.forEach(replaceTask);
+      }
+      await taskRepository().remove(task.id);
+      state.tasks = state.tasks.filter(t => t.id !== task.id);
+      state.message = chalk.green(`✅ Deleted "${task.title}"`);
+    };
+
+    const editTask = async (task: Task) => {
+      leaveScreen();
+      try {
+        console.log(chalk.cyan(`🎯 Updating task: ${task.title}\n`));
+        await saveUpdate(task, await promptTaskUpdates(task), `Updated "${task.title}"`);
+      } finally {
+        enterScreen();
+      }
+    };
+
+    const bumpPriority = async (task: Task, step: number) => {
+      const index = PRIORITIES.indexOf(task.priority) + step;
+      if (index < 0 || index >= PRIORITIES.length) {
+        state.message = chalk.yellow(`Priority is already ${task.priority}`);
+        return;
+      }
+      await saveUpdate(task, { priority: PRIORITIES[index] }, `Priority of "${task.title}" set to ${PRIORITIES[index]}`);
+    };
+
+    // Keys that change data run one at a time; others are ignored meanwhile.
+    // Each is its own journal entry, so undo reverts one action, not the session.
+    const run = (label: string, action: () => Promise<void>) => {
+      state.busy = true;
+      startOperation(label);
+      action()
+        .catch(error => { state.message = chalk.red(`❌ ${error.message}`); })
+        .finally(() => {
+          state.busy = false;
+          render(state);
+        });
+    };
+
+    function onKeypress(input: string | undefined, key: readline.Key = {}) {
+      if (key.ctrl && key.name === 'c') return quit();
+      if (state.busy) return;
+
+      const tasks = visibleTasks(state);
+      const current = tasks[state.selected];
+      state.message = '';
+
+      if (state.confirmDelete) {
+        state.confirmDelete = false;
+        if (current && input?.toLowerCase() === 'y') return run(`delete ${current.id}`, () => deleteTask(current));
+        state.message = chalk.yellow('Delete cancelled.');
+        return render(state);
+      }
+
+      switch (key.name) {
+        case 'up':
+          state.selected--;
+          return render(state);
+        case 'down':
+          state.selected++;
+          return render(state);
+        case 'pageup':
+          state.selected -= (process.stdout.rows || 24) - CHROME_LINES;
+          return render(state);
+        case 'pagedown':
+          state.selected += (process.stdout.rows || 24) - CHROME_LINES;
+          return render(state);
+      }
+
+      if (state.filtering) {
+        if (key.name === 'escape') {
+          state.filter = '';
+          state.filtering = false;
+        } else if (key.name === 'return' || key.name === 'enter') {
+          state.filtering = false;
+        } else if (key.name === 'backspace') {
+          state.filter = state.filter.slice(0, -1);
+        } else if (input && !key.ctrl && !key.meta && input >= ' ') {
+          state.filter += input;
+          state.selected = 0;
+        }
+        return render(state);
+      }
+
+      switch (input) {
+        case 'q':
+          return quit();
+        case 'k':
+          state.selected--;
+          return render(state);
+        case 'j':
+          state.selected++;
+          return render(state);
+        case 'g':
+          state.selected = 0;
+          return render(state);
+        case 'G':
+          state.selected = tasks.length - 1;
+          return render(state);
+        case '/':
+          state.filtering = true;
+          return render(state);
+      }
+
+      if (key.name === 'escape') {
+        if (state.filter) {
+          state.filter = '';
+          return render(state);
+        }
+        return quit();
+      }
+
+      if (!current) return render(state);
+
+      switch (input) {
+        case 'c':
+          if (current.status === 'completed') {
+            state.message = chalk.yellow(`"${current.title}" is already completed`);
+            return render(state);
+          }
+          return run(`complete ${current.id}`, () => saveUpdate(current, { status: 'completed' }, `Completed "${current.title}"`));
+        case 'd':
+          state.confirmDelete = true;
+          state.message = chalk.yellow(`Delete "${current.title}"? (y/N)`);
+          return render(state);
+        case '+':
+        case '=':
+          return run(`priority ${current.id}`, () => bumpPriority(current, 1));
+        case '-':
+          return run(`priority ${current.id}`, () => bumpPriority(current, -1));
+        case 'e':
+          return run(`edit ${current.id}`, () => editTask(current));
+      }
+
+      if (key.name === 'return' || key.name === 'enter') {
+        return run(`edit ${current.id}`, () => editTask(current));
+      }
+
+      render(state);
+    }
+
+    readline.emitKeypressEvents(process.stdin);
+    enterScreen();
+  });
+}
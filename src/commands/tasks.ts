@@ -5,48 +5,254 @@ import ora from 'ora';
 import inquirer from 'inquirer';
 import Table from 'cli-table3';
 import boxen from 'boxen';
-
-const TASKS_FILE = path.resolve('./demo-files/tasks.json');
+import { getConfig, applyLimit, formatDate } from '../utils/config';
+import { getRepository } from '../storage/index';
+import { findCycle, isBlocked, isOpenTask, openPrerequisites, topologicalOrder } from '../utils/dependencies';
+import { detachSubtasks, formatProgress, taskProgress, unfinishedWork } from '../utils/subtasks';
+import { daysLeftInWeek, daysUntil, dueTime, isDateOnly, isPastDue, parseDueDate } from '../utils/dates';
+import { describeRecurrence, parseRecurrence } from '../utils/recurrence';
+import { formatDuration, minutesBetween, parseDuration } from '../utils/duration';
+import { toCsv } from '../utils/csv';
+import { matchesQuery, parseQuery } from '../utils/query';
+import { formatScore, fuzzySearch, highlight } from '../utils/fuzzy';
+import {
+  EXPORT_FORMATS,
+  ICS_TYPES,
+  IMPORT_FIELDS,
+  IMPORT_FORMATS,
+  buildImportedTask,
+  formatFromPath,
+  importKey,
+  parseFieldMap,
+  parseIcs,
+  parseTaskCsv,
+  parseTaskJson,
+  parseTodoTxt,
+  tasksToCsv,
+  tasksToIcs,
+  tasksToMarkdown,
+  tasksToTodoTxt
+} from '../utils/taskFormats';
+import {
+  PRIORITIES,
+  STATUSES,
+  applyTaskUpdate,
+  completeTask,
+  generateId,
+  getPriorityIcon,
+  getStatusIcon,
+  parseRepeatOption,
+  promptTaskUpdates,
+  validateTaskUpdate,
+  withTimerEntry
+} from '../utils/tasks';
+import { runTaskTui } from './taskTui';
+import { trashCommands } from './trash';
+import type { Repository } from '../storage/index';
+import type { QueryNode } from '../utils/query';
+import type { ImportRecord } from '../utils/taskFormats';
+import type { TaskChange } from '../utils/tasks';
+import type { ActiveTimer, ChecklistItem, SavedQuery, Task, TaskOptions, User } from '../types/index';
 
 // Helper functions
-async function loadTasks() {
-  try {
-    const data = await fs.readFile(TASKS_FILE, 'utf8');
-    return JSON.parse(data);
-  } catch (error) {
-    return [];
+function taskRepository(): Repository<Task> {
+  return getRepository<Task>('tasks');
+}
+
+function userRepository(): Repository<User> {
+  return getRepository<User>('users');
+}
+
+function timerRepository(): Repository<ActiveTimer> {
+  return getRepository<ActiveTimer>('timers', { key: timer => timer.taskId });
+}
+
+function queryRepository(): Repository<SavedQuery> {
+  return getRepository<SavedQuery>('queries', { key: query => query.name });
+}
+
+// A --query value is either the name of a saved query or an expression
+async function resolveQuery(value: string): Promise<QueryNode> {
+  const saved = await queryRepository().get(value);
+  return parseQuery(saved ? saved.query : value);
+}
+
+// User id -> name, for displaying assignees
+async function loadUserNames(): Promise<Map<string, string>> {
+  const users = await userRepository().list();
+  return new Map(users.map(user => [user.id, user.name]));
+}
+
+function formatAssignee(userId: string | undefined, userNames: Map<string, string>): string {
+  if (!userId) return 'Unassigned';
+  return userNames.has(userId) ? `${userNames.get(userId)} (${userId})` : `${userId} (unknown user)`;
+}
+
+function matchesAssignee(task: Task, assignee: string): boolean {
+  return assignee === 'none' ? !task.assignee : task.assignee === assignee;
+}
+
+// The filters shared by `task list` and `task bulk`
+function filterTasks(tasks: Task[], options: TaskOptions, query?: QueryNode): Task[] {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  return tasks.filter(task =>
+    (!options.status || task.status === options.status) &&
+    (!options.priority || task.priority === options.priority) &&
+    (!options.tag || task.tags.includes(options.tag)) &&
+    (!options.assignee || matchesAssignee(task, options.assignee)) &&
+    (!query || matchesQuery(query, task, { tasksById }))
+  );
+}
+
+// Commander collector for repeatable options
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+function toChecklist(items: string[] | undefined): ChecklistItem[] {
+  return (items || []).map(text => text.trim()).filter(Boolean).map(text => ({ text, done: false }));
+}
+
+function formatDue(due: string): string {
+  return formatDate(due, !isDateOnly(due));
+}
+
+function formatDaysLeft(due: string): string {
+  const days = daysUntil(due);
+  if (isPastDue(due)) {
+    return days < 0 ? chalk.red(`${-days} day${days === -1 ? '' : 's'} overdue`) : chalk.red('overdue');
+  }
+  if (days === 0) return chalk.yellow('due today');
+  return chalk.green(`${days} day${days === 1 ? '' : 's'} left`);
+}
+
+function loggedMinutes(task: Task): number {
+  return (task.timeEntries || []).reduce((total, entry) => total + entry.minutes, 0);
+}
+
+// Start of a --from date and end of a --to date, in milliseconds
+function parseReportRange(from: string | undefined, to: string | undefined): [number, number] {
+  const start = from ? dueTime(parseDueDate(from)) : -Infinity;
+  let end = Infinity;
+  if (to) {
+    const due = parseDueDate(to);
+    end = isDateOnly(due) ? dueTime(due) + 24 * 60 * 60 * 1000 : dueTime(due);
+  }
+  return [start, end];
+}
+
+function truncate(text: string, width: number): string {
+  if (width <= 1) return '…';
+  return text.length > width ? text.substring(0, width - 1) + '…' : text;
+}
+
+function describeRepeat(task: Task): string {
+  const text = describeRecurrence(parseRecurrence(task.repeat));
+  return task.occurrence > 1 ? `${text}, occurrence #${task.occurrence}` : text;
+}
+
+const VIEWS = ['blocked', 'next'];
+const REPORT_GROUPS = ['task', 'tag', 'assignee'];
+
+function parseIdList(value: string | undefined): string[] {
+  return value ? value.split(',').map(id => id.trim()).filter(Boolean) : [];
+}
+
+interface BulkChange {
+  task: Task;
+  detail?: string;
+}
+
+interface BulkSkip {
+  task: Task;
+  reason: string;
+}
+
+// Selection and safety options shared by the `task bulk` subcommands
+function addBulkOptions(command) {
+  return command
+    .option('-s, --status <status>', 'select by status')
+    .option('-p, --priority <priority>', 'select by priority')
+    .option('-t, --tag <tag>', 'select by tag')
+    .option('-a, --assignee <userId>', 'select by assignee (user ID, or "none" for unassigned)')
+    .option('-q, --query <query>', 'select with a query expression or the name of a saved query')
+    .option('--dry-run', 'show what would change without saving anything')
+    .option('-y, --yes', 'skip the confirmation prompt');
+}
+
+// The tasks matched by the bulk filters, along with the whole collection
+async function selectBulkTasks(options: TaskOptions): Promise<{ selected: Task[]; tasks: Task[] }> {
+  if (!options.status && !options.priority && !options.tag && !options.assignee && !options.query) {
+    throw new Error('Select tasks with at least one filter (--status, --priority, --tag, --assignee or --query)');
+  }
+
+  let query: QueryNode | undefined;
+  if (options.query) {
+    try {
+      query = await resolveQuery(options.query);
+    } catch (error) {
+      throw new Error(`Invalid query: ${error.message}`);
+    }
   }
+
+  const tasks = await taskRepository().list();
+  return { selected: filterTasks(tasks, options, query), tasks };
 }
 
-async function saveTasks(tasks) {
-  await fs.writeFile(TASKS_FILE, JSON.stringify(tasks, null, 2));
+function reportSkipped(skipped: BulkSkip[]) {
+  if (skipped.length === 0) return;
+  console.log(chalk.yellow(`\n⚠️  Skipping ${skipped.length} task(s):`));
+  skipped.forEach(({ task, reason }) => console.log(chalk.yellow(`  • ${task.title} (${task.id}): ${reason}`)));
 }
 
-function generateId() {
-  return Math.random().toString(36).substring(2, 9);
+// Warn about completed tasks whose prerequisites are still open
+function reportOpenPrerequisites(changes: TaskChange[]) {
+  changes.filter(change => change.waitingOn?.length > 0).forEach(({ task, waitingOn }) => {
+    console.log(chalk.yellow(`⚠️  "${task.title}" still has ${waitingOn.length} open prerequisite(s):`));
+    waitingOn.forEach(dep => console.log(chalk.yellow(`  • ${dep.title} (${dep.id}) - ${dep.status}`)));
+  });
 }
 
-const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
-const STATUSES = ['pending', 'in-progress', 'completed', 'cancelled'];
-
-function getPriorityIcon(priority) {
-  const icons = {
-    low: '🟢',
-    medium: '🟡',
-    high: '🟠',
-    urgent: '🔴'
-  };
-  return icons[priority] || '⚪';
+// Save tasks and next occurrences in one write, then drop stopped timers
+async function saveTaskChanges(changes: TaskChange[]) {
+  await taskRepository().saveMany([
+    ...changes.map(change => change.task),
+    ...changes.map(change => change.nextTask).filter(Boolean)
+  ]);
+  const stopped = changes.filter(change => change.timerStopped).map(change => change.task.id);
+  if (stopped.length > 0) {
+    await timerRepository().removeMany(stopped);
+  }
 }
 
-function getStatusIcon(status) {
-  const icons = {
-    pending: '⏳',
-    'in-progress': '🔄',
-    completed: '✅',
-    cancelled: '❌'
-  };
-  return icons[status] || '❓';
+// Preview a bulk change and ask before applying it. False on --dry-run or when declined.
+async function confirmBulk(action: string, changes: BulkChange[], options: TaskOptions): Promise<boolean> {
+  console.log(chalk.cyan(`\n${action} ${changes.length} task(s):`));
+  changes.forEach(({ task, detail }) => {
+    console.log(`  ${getStatusIcon(task.status)} ${task.title} ${chalk.gray(`(${task.id})`)}${detail ? chalk.gray(` - ${detail}`) : ''}`);
+  });
+  console.log();
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('Dry run: no changes made.'));
+    return false;
+  }
+
+  if (options.yes) return true;
+
+  const { confirm } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message: `${action} ${changes.length} task(s)?`,
+      default: false
+    }
+  ]);
+
+  if (!confirm) {
+    console.log(chalk.yellow('Operation cancelled.'));
+  }
+  return confirm;
 }
 
 export function taskCommands(program) {
@@ -59,11 +265,35 @@ export function taskCommands(program) {
 Examples:
   $ pnpm cli task add "Complete project documentation"
   $ pnpm cli task add "Fix bug" --priority high --due "2024-01-15"
+  $ pnpm cli task add "Call back" --due "next friday"
+  $ pnpm cli task add "Ship hotfix" --due eod
   $ pnpm cli task list --status pending
   $ pnpm cli task list --priority high --format table
   $ pnpm cli task complete task123
   $ pnpm cli task update task123 --priority urgent
+  $ pnpm cli task assign task123 user456
+  $ pnpm cli task list --assignee user456
+  $ pnpm cli task depend task123 --on task456
+  $ pnpm cli task list --view next
+  $ pnpm cli task agenda
+  $ pnpm cli task board --assignee user456
+  $ pnpm cli task tui
+  $ pnpm cli task start task123
+  $ pnpm cli task log task123 1h30m --note "Code review"
+  $ pnpm cli task report --from 2024-01-01 --to 2024-01-31 --format csv
+  $ pnpm cli task add "Write tests" --parent task123
+  $ pnpm cli task add "Release" --item "Bump version" --item "Tag release"
+  $ pnpm cli task check task123 1
+  $ pnpm cli task add "Weekly report" --due 2024-01-05 --repeat weekly
+  $ pnpm cli task add "Standup notes" --repeat "FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=10"
   $ pnpm cli task search --text "documentation"
+  $ pnpm cli task list --query 'status:pending priority>=high due<+7d -tag:blocked'
+  $ pnpm cli task query save mine "assignee:user456 is:open"
+  $ pnpm cli task list --query mine
+  $ pnpm cli task bulk complete --tag sprint-12 --dry-run
+  $ pnpm cli task trash restore task123
+  $ pnpm cli task export --format ics --ics-type vevent -o tasks.ics
+  $ pnpm cli task import tasks.csv --dry-run
 `);
 
   // Add task command
@@ -71,18 +301,26 @@ Examples:
     .command('add <title>')
     .description('➕ Add a new task')
     .option('-d, --description <desc>', 'task description')
-    .option('-p, --priority <priority>', 'task priority (low, medium, high, urgent)', 'medium')
-    .option('--due <date>', 'due date (YYYY-MM-DD)')
+    .option('-p, --priority <priority>', 'task priority (low, medium, high, urgent), defaults to config defaultPriority')
+    .option('--due <date>', 'due date (YYYY-MM-DD, ISO datetime, today, tomorrow, eod, friday, next friday, +3d, +30min, +2mo, in 2 weeks)')
     .option('-t, --tags <tags>', 'comma-separated tags')
+    .option('-a, --assignee <userId>', 'assign to a user')
+    .option('--parent <taskId>', 'create as a subtask of another task')
+    .option('--item <text>', 'add a checklist item (repeatable)', collect)
+    .option('-r, --repeat <rule>', 'repeat schedule: daily, weekly, monthly, yearly, weekdays or an RRULE')
     .option('-i, --interactive', 'interactive mode')
     .action(async (title, options) => {
       try {
         let taskData = {
           title,
           description: options.description || '',
-          priority: options.priority,
+          priority: options.priority || getConfig().defaultPriority,
           due: options.due,
-          tags: options.tags ? options.tags.split(',').map(t => t.trim()) : []
+          tags: options.tags ? options.tags.split(',').map(t => t.trim()) : [],
+          ...(options.assignee ? { assignee: options.assignee } : {}),
+          ...(options.parent ? { parentId: options.parent } : {}),
+          ...(options.item ? { checklist: toChecklist(options.item) } : {}),
+          ...(options.repeat ? { repeat: options.repeat } : {})
         };
         
         // Interactive mode
@@ -116,12 +354,16 @@ Examples:
             {
               type: 'input',
               name: 'due',
-              message: 'Due date (YYYY-MM-DD, optional):',
+              message: 'Due date (e.g. 2024-01-15, tomorrow, +3d, optional):',
               default: taskData.due,
               validate: (input) => {
                 if (!input) return true;
-                const date = new Date(input);
-                return !isNaN(date.getTime()) || 'Please enter a valid date';
+                try {
+                  parseDueDate(input);
+                  return true;
+                } catch (error) {
+                  return error.message;
+                }
               }
             },
             {
@@ -142,24 +384,50 @@ Examples:
         // Validate priority
         if (!PRIORITIES.includes(taskData.priority)) {
           console.error(chalk.red(`❌ Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`));
+          process.exitCode = 1;
           return;
         }
         
         // Validate due date
         if (taskData.due) {
-          const dueDate = new Date(taskData.due);
-          if (isNaN(dueDate.getTime())) {
-            console.error(chalk.red('❌ Invalid due date format. Use YYYY-MM-DD'));
+          try {
+            taskData.due = parseDueDate(taskData.due); // Normalize to ISO
+          } catch (error) {
+            console.error(chalk.red(`❌ ${error.message}`));
+            process.exitCode = 1;
             return;
           }
-          taskData.due = dueDate.toISOString().split('T')[0]; // Normalize to YYYY-MM-DD
         }
         
-        const spinner = ora('Adding task...').start();
+        // Validate assignee
+        if (taskData.assignee && !(await userRepository().get(taskData.assignee))) {
+          console.error(chalk.red(`❌ User with ID ${taskData.assignee} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        // Validate repeat rule
+        if (taskData.repeat) {
+          try {
+            taskData.repeat = parseRepeatOption(taskData.repeat) || undefined;
+          } catch (error) {
+            console.error(chalk.red(`❌ ${error.message}`));
+            process.exitCode = 1;
+            return;
+          }
+        }
+        
+        // Validate parent
+        const parent = taskData.parentId ? await taskRepository().get(taskData.parentId) : undefined;
+        if (taskData.parentId && !parent) {
+          console.error(chalk.red(`❌ Parent task with ID ${taskData.parentId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
         
-        const tasks = await loadTasks();
+        const spinner = ora('Adding task...').start();
         
-        const newTask = {
+        const newTask: Task = {
           id: generateId(),
           ...taskData,
           status: 'pending',
@@ -167,8 +435,7 @@ Examples:
           updatedAt: new Date().toISOString()
         };
         
-        tasks.push(newTask);
-        await saveTasks(tasks);
+        await taskRepository().save(newTask);
         
         spinner.succeed(chalk.green('✅ Task added successfully!'));
         
@@ -178,9 +445,13 @@ Examples:
           `${chalk.bold('Priority:')} ${newTask.priority}\n` +
           `${chalk.bold('Status:')} ${newTask.status}\n` +
           (newTask.description ? `${chalk.bold('Description:')} ${newTask.description}\n` : '') +
-          (newTask.due ? `${chalk.bold('Due:')} ${newTask.due}\n` : '') +
+          (newTask.due ? `${chalk.bold('Due:')} ${formatDue(newTask.due)}\n` : '') +
           (newTask.tags.length > 0 ? `${chalk.bold('Tags:')} ${newTask.tags.join(', ')}\n` : '') +
-          `${chalk.bold('Created:')} ${new Date(newTask.createdAt).toLocaleString()}`,
+          (newTask.assignee ? `${chalk.bold('Assignee:')} ${formatAssignee(newTask.assignee, await loadUserNames())}\n` : '') +
+          (parent ? `${chalk.bold('Parent:')} ${parent.title} (${parent.id})\n` : '') +
+          (newTask.checklist?.length ? `${chalk.bold('Checklist:')} ${newTask.checklist.length} item(s)\n` : '') +
+          (newTask.repeat ? `${chalk.bold('Repeats:')} ${describeRepeat(newTask)}\n` : '') +
+          `${chalk.bold('Created:')} ${formatDate(newTask.createdAt)}`,
           {
             padding: 1,
             borderColor: 'green'
@@ -189,6 +460,7 @@ Examples:
         
       } catch (error) {
         console.error(chalk.red(`❌ Error adding task: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -199,60 +471,84 @@ Examples:
     .option('-s, --status <status>', 'filter by status (pending, in-progress, completed, cancelled)')
     .option('-p, --priority <priority>', 'filter by priority (low, medium, high, urgent)')
     .option('-t, --tag <tag>', 'filter by tag')
+    .option('-a, --assignee <userId>', 'filter by assignee (user ID, or "none" for unassigned)')
+    .option('--view <view>', 'blocked: open tasks waiting on prerequisites; next: open tasks in dependency order')
+    .option('-q, --query <query>', 'filter with a query expression or the name of a saved query')
     .option('-f, --format <format>', 'output format (table, json, simple)', 'simple')
     .option('--sort <field>', 'sort by field (title, priority, due, created)', 'created')
     .option('--reverse', 'reverse sort order')
     .option('--limit <number>', 'limit number of results', parseInt)
     .action(async (options) => {
+      if (options.view && !VIEWS.includes(options.view)) {
+        console.error(chalk.red(`❌ Invalid view. Must be one of: ${VIEWS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      let query: QueryNode | undefined;
+      if (options.query) {
+        try {
+          query = await resolveQuery(options.query);
+        } catch (error) {
+          console.error(chalk.red(`❌ Invalid query: ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+      }
+      
       const spinner = ora('Loading tasks...').start();
       
       try {
-        let tasks = await loadTasks();
+        let tasks = await taskRepository().list();
         
         if (tasks.length === 0) {
           spinner.warn(chalk.yellow('No tasks found. Add some tasks first!'));
           return;
         }
         
+        const allTasks = tasks;
+        const tasksById = new Map(tasks.map(task => [task.id, task]));
+        
         // Apply filters
-        if (options.status) {
-          tasks = tasks.filter(task => task.status === options.status);
-        }
+        tasks = filterTasks(tasks, options, query);
         
-        if (options.priority) {
-          tasks = tasks.filter(task => task.priority === options.priority);
+        if (options.view === 'blocked') {
+          tasks = tasks.filter(task => isBlocked(task, tasksById));
         }
         
-        if (options.tag) {
-          tasks = tasks.filter(task => task.tags.includes(options.tag));
+        // Sort tasks ("next" view keeps dependency order)
+        if (options.view === 'next') {
+          tasks = topologicalOrder(tasks);
+        } else {
+          tasks.sort((a, b) => {
+            let fieldA = a[options.sort];
+            let fieldB = b[options.sort];
+            
+            // Handle priority sorting
+            if (options.sort === 'priority') {
+              fieldA = PRIORITIES.indexOf(fieldA);
+              fieldB = PRIORITIES.indexOf(fieldB);
+            }
+            
+            // Handle date sorting (undated tasks sort after dated ones)
+            if (options.sort === 'created') {
+              fieldA = new Date(a.createdAt).getTime();
+              fieldB = new Date(b.createdAt).getTime();
+            }
+            
+            if (options.sort === 'due') {
+              fieldA = dueTime(a.due);
+              fieldB = dueTime(b.due);
+            }
+            
+            if (fieldA < fieldB) return options.reverse ? 1 : -1;
+            if (fieldA > fieldB) return options.reverse ? -1 : 1;
+            return 0;
+          });
         }
         
-        // Sort tasks
-        tasks.sort((a, b) => {
-          let fieldA = a[options.sort];
-          let fieldB = b[options.sort];
-          
-          // Handle priority sorting
-          if (options.sort === 'priority') {
-            fieldA = PRIORITIES.indexOf(fieldA);
-            fieldB = PRIORITIES.indexOf(fieldB);
-          }
-          
-          // Handle date sorting
-          if (options.sort === 'created' || options.sort === 'due') {
-            fieldA = new Date(fieldA || 0);
-            fieldB = new Date(fieldB || 0);
-          }
-          
-          if (fieldA < fieldB) return options.reverse ? 1 : -1;
-          if (fieldA > fieldB) return options.reverse ? -1 : 1;
-          return 0;
-        });
-        
-        // Limit results
-        if (options.limit) {
-          tasks = tasks.slice(0, options.limit);
-        }
+        // Limit results (capped by config maxItems)
+        tasks = applyLimit(tasks, options.limit);
         
         spinner.succeed(chalk.green(`✅ Found ${tasks.length} tasks`));
         
@@ -262,11 +558,14 @@ Examples:
           return;
         }
         
+        const userNames = await loadUserNames();
+        const runningTimers = new Set((await timerRepository().list()).map(timer => timer.taskId));
+        
         if (options.format === 'table') {
           const table = new Table({
-            head: ['ID', 'Title', 'Status', 'Priority', 'Due', 'Tags'].map(h => chalk.cyan(h)),
+            head: ['ID', 'Title', 'Status', 'Priority', 'Due', 'Tags', 'Assignee', 'Progress'].map(h => chalk.cyan(h)),
             style: { border: ['gray'] },
-            colWidths: [10, 30, 12, 10, 12, 20]
+            colWidths: [10, 30, 12, 10, 12, 20, 16, 10]
           });
           
           tasks.forEach(task => {
@@ -275,8 +574,10 @@ Examples:
               task.title.length > 27 ? task.title.substring(0, 24) + '...' : task.title,
               `${getStatusIcon(task.status)} ${task.status}`,
               `${getPriorityIcon(task.priority)} ${task.priority}`,
-              task.due || 'N/A',
-              task.tags.length > 0 ? task.tags.slice(0, 2).join(', ') + (task.tags.length > 2 ? '...' : '') : 'None'
+              task.due ? formatDate(task.due, false) : 'N/A',
+              task.tags.length > 0 ? task.tags.slice(0, 2).join(', ') + (task.tags.length > 2 ? '...' : '') : 'None',
+              task.assignee ? userNames.get(task.assignee) || task.assignee : '-',
+              formatProgress(taskProgress(task, allTasks))
             ]);
           });
           
@@ -297,9 +598,8 @@ Examples:
             }
             
             if (task.due) {
-              const dueDate = new Date(task.due);
-              const isOverdue = dueDate < new Date() && task.status !== 'completed';
-              const dueDateStr = isOverdue ? chalk.red(task.due) : chalk.green(task.due);
+              const isOverdue = isPastDue(task.due) && task.status !== 'completed';
+              const dueDateStr = isOverdue ? chalk.red(formatDue(task.due)) : chalk.green(formatDue(task.due));
               console.log(`   📅 Due: ${dueDateStr}`);
             }
             
@@ -307,12 +607,211 @@ Examples:
               console.log(`   🏷️  ${task.tags.map(tag => chalk.cyan(`#${tag}`)).join(' ')}`);
             }
             
+            if (task.assignee) {
+              console.log(`   👤 ${formatAssignee(task.assignee, userNames)}`);
+            }
+            
+            if (task.repeat) {
+              console.log(`   🔁 Repeats ${describeRepeat(task)}`);
+            }
+            
+            if (task.timeEntries?.length || runningTimers.has(task.id)) {
+              const running = runningTimers.has(task.id) ? chalk.green(' (timer running)') : '';
+              console.log(`   ⏱️  Logged: ${formatDuration(loggedMinutes(task))}${running}`);
+            }
+            
+            const parent = task.parentId ? tasksById.get(task.parentId) : undefined;
+            if (parent) {
+              console.log(`   ↳ Subtask of: ${parent.title} ${chalk.gray(`(${parent.id})`)}`);
+            }
+            
+            const progress = taskProgress(task, allTasks);
+            if (progress.total > 0) {
+              console.log(`   ☑️  Progress: ${chalk.cyan(formatProgress(progress))}`);
+              (task.checklist || []).forEach((item, itemIndex) => {
+                const text = `${itemIndex + 1}. ${item.text}`;
+                console.log(`      ${item.done ? chalk.green('[x]') : chalk.gray('[ ]')} ${item.done ? chalk.gray(text) : text}`);
+              });
+            }
+            
+            const waitingOn = isOpenTask(task) ? openPrerequisites(task, tasksById) : [];
+            if (waitingOn.length > 0) {
+              console.log(`   ⛔ ${chalk.red('Blocked by:')} ${waitingOn.map(dep => `${dep.title} (${dep.id})`).join(', ')}`);
+            } else if (options.view === 'next') {
+              console.log(`   ▶️  ${chalk.green('Ready to start')}`);
+            }
+            
             console.log();
           });
         }
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error loading tasks: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Agenda command
+  taskCmd
+    .command('agenda')
+    .description('🗓️ Show open tasks grouped by due date')
+    .option('-a, --assignee <userId>', 'filter by assignee (user ID, or "none" for unassigned)')
+    .option('-t, --tag <tag>', 'filter by tag')
+    .option('-q, --quiet', 'print nothing, only set the exit code')
+    .action(async (options) => {
+      try {
+        let tasks = (await taskRepository().list()).filter(isOpenTask);
+        
+        if (options.assignee) {
+          tasks = tasks.filter(task => matchesAssignee(task, options.assignee));
+        }
+        
+        if (options.tag) {
+          tasks = tasks.filter(task => task.tags.includes(options.tag));
+        }
+        
+        tasks.sort((a, b) => dueTime(a.due) - dueTime(b.due) || PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority));
+        
+        const weekDays = daysLeftInWeek();
+        const groups = [
+          { title: '🚨 Overdue', color: chalk.red, tasks: [] as Task[] },
+          { title: '📌 Today', color: chalk.yellow, tasks: [] as Task[] },
+          { title: '📆 This week', color: chalk.cyan, tasks: [] as Task[] },
+          { title: '🔭 Later', color: chalk.blue, tasks: [] as Task[] },
+          { title: '📭 No due date', color: chalk.gray, tasks: [] as Task[] }
+        ];
+        const [overdue, today, thisWeek, later, undated] = groups;
+        
+        tasks.forEach(task => {
+          if (dueTime(task.due) === Infinity) undated.tasks.push(task);
+          else if (isPastDue(task.due)) overdue.tasks.push(task);
+          else if (daysUntil(task.due) === 0) today.tasks.push(task);
+          else if (daysUntil(task.due) <= weekDays) thisWeek.tasks.push(task);
+          else later.tasks.push(task);
+        });
+        
+        // Non-zero exit for shell prompts and cron jobs
+        const overdueUrgent = overdue.tasks.filter(task => task.priority === 'urgent');
+        if (overdueUrgent.length > 0) {
+          process.exitCode = 1;
+        }
+        
+        if (options.quiet) return;
+        
+        if (tasks.length === 0) {
+          console.log(chalk.green('🎉 No open tasks. Enjoy your day!'));
+          return;
+        }
+        
+        const userNames = await loadUserNames();
+        
+        console.log(chalk.bold.cyan(`\n🗓️  Agenda for ${formatDate(new Date(), false)}\n`));
+        
+        groups.filter(group => group.tasks.length > 0).forEach(group => {
+          console.log(group.color.bold(`${group.title} (${group.tasks.length})`));
+          group.tasks.forEach(task => {
+            const due = task.due && dueTime(task.due) !== Infinity
+              ? ` ${chalk.gray('|')} 📅 ${formatDue(task.due)} ${chalk.gray('|')} ${formatDaysLeft(task.due)}`
+              : '';
+            const assignee = task.assignee ? ` ${chalk.gray('|')} 👤 ${userNames.get(task.assignee) || task.assignee}` : '';
+            console.log(`  ${getPriorityIcon(task.priority)} ${chalk.white.bold(task.title)} ${chalk.gray(`(${task.id})`)}${due}${assignee}`);
+          });
+          console.log();
+        });
+        
+        if (overdueUrgent.length > 0) {
+          console.log(chalk.red.bold(`⚠️  ${overdueUrgent.length} urgent task(s) overdue!`));
+        }
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error building agenda: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Kanban board command
+  taskCmd
+    .command('board')
+    .description('🗂️ Show tasks as a kanban board, one column per status')
+    .option('-t, --tag <tag>', 'filter by tag')
+    .option('-a, --assignee <userId>', 'filter by assignee (user ID, or "none" for unassigned)')
+    .option('-p, --priority <priority>', 'filter by priority')
+    .option('--limit <number>', 'maximum cards per column', parseInt)
+    .action(async (options) => {
+      try {
+        let tasks = await taskRepository().list();
+        
+        if (options.tag) {
+          tasks = tasks.filter(task => task.tags.includes(options.tag));
+        }
+        
+        if (options.assignee) {
+          tasks = tasks.filter(task => matchesAssignee(task, options.assignee));
+        }
+        
+        if (options.priority) {
+          tasks = tasks.filter(task => task.priority === options.priority);
+        }
+        
+        if (tasks.length === 0) {
+          console.log(chalk.yellow('No tasks to show on the board.'));
+          return;
+        }
+        
+        const userNames = await loadUserNames();
+        
+        // Fit the four columns (plus borders) into the terminal
+        const terminalWidth = process.stdout.columns || 80;
+        const columnWidth = Math.max(12, Math.floor((terminalWidth - (STATUSES.length + 1)) / STATUSES.length));
+        const textWidth = columnWidth - 2;
+        
+        const columns = STATUSES.map(status => {
+          const columnTasks = tasks
+            .filter(task => task.status === status)
+            .sort((a, b) => PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority) || dueTime(a.due) - dueTime(b.due));
+          const shown = applyLimit(columnTasks, options.limit);
+          const cards = shown.map(task => {
+            const details = [task.id, task.assignee ? `@${userNames.get(task.assignee) || task.assignee}` : '', task.due ? formatDate(task.due, false) : '']
+              .filter(Boolean)
+              .join(' ');
+            return `${getPriorityIcon(task.priority)} ${chalk.bold(truncate(task.title, textWidth - 3))}\n${chalk.gray(truncate(details, textWidth))}`;
+          });
+          if (columnTasks.length > shown.length) {
+            cards.push(chalk.gray(`… ${columnTasks.length - shown.length} more`));
+          }
+          return { status, count: columnTasks.length, cards };
+        });
+        
+        const table = new Table({
+          head: columns.map(column => chalk.cyan(truncate(`${getStatusIcon(column.status)} ${column.status} (${column.count})`, textWidth))),
+          style: { border: ['gray'] },
+          colWidths: STATUSES.map(() => columnWidth),
+          wordWrap: false
+        });
+        
+        const rows = Math.max(...columns.map(column => column.cards.length));
+        for (let row = 0; row < rows; row++) {
+          table.push(columns.map(column => column.cards[row] || ''));
+        }
+        
+        console.log(table.toString());
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error drawing board: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Interactive task browser
+  taskCmd
+    .command('tui')
+    .description('🖥️ Browse and edit tasks in a full-screen interface')
+    .action(async () => {
+      try {
+        await runTaskTui();
+      } catch (error) {
+        console.error(chalk.red(`❌ Error running task TUI: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -320,38 +819,59 @@ Examples:
   taskCmd
     .command('complete <taskId>')
     .description('✅ Mark task as completed')
-    .action(async (taskId) => {
+    .option('-f, --force', 'complete even if subtasks or checklist items are unfinished')
+    .action(async (taskId, options) => {
       try {
-        const tasks = await loadTasks();
-        const taskIndex = tasks.findIndex(t => t.id === taskId);
+        const task = await taskRepository().get(taskId);
         
-        if (taskIndex === -1) {
+        if (!task) {
           console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
           return;
         }
         
-        const task = tasks[taskIndex];
-        
         if (task.status === 'completed') {
           console.log(chalk.yellow(`Task "${task.title}" is already completed!`));
           return;
         }
         
-        const spinner = ora('Completing task...').start();
+        const tasks = await taskRepository().list();
         
-        tasks[taskIndex] = {
-          ...task,
-          status: 'completed',
-          completedAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
+        const unfinished = unfinishedWork(task, tasks);
+        if ((unfinished.subtasks.length > 0 || unfinished.items.length > 0) && !options.force) {
+          console.error(chalk.red(`❌ "${task.title}" still has unfinished work:`));
+          unfinished.subtasks.forEach(subtask => console.error(chalk.red(`  • Subtask: ${subtask.title} (${subtask.id}) - ${subtask.status}`)));
+          unfinished.items.forEach(item => console.error(chalk.red(`  • Checklist item: ${item.text}`)));
+          console.error(chalk.gray('Finish them first, or use --force to complete anyway.'));
+          process.exitCode = 1;
+          return;
+        }
+        
+        // A running timer on the task stops when it is completed
+        const timer = await timerRepository().get(task.id);
+        const completion = completeTask(task, new Map(tasks.map(t => [t.id, t])), timer);
+        const { nextTask } = completion;
+        reportOpenPrerequisites([completion]);
+        
+        const spinner = ora('Completing task...').start();
         
-        await saveTasks(tasks);
+        await saveTaskChanges([completion]);
         
         spinner.succeed(chalk.green(`✅ Task "${task.title}" marked as completed!`));
         
+        if (completion.timerStopped) {
+          console.log(chalk.cyan(`⏱️  Timer stopped, ${formatDuration(loggedMinutes(completion.task))} logged in total`));
+        }
+        
+        if (nextTask) {
+          console.log(chalk.cyan(`🔁 Next occurrence created: ${nextTask.id}, due ${formatDue(nextTask.due)}`));
+        } else if (task.repeat) {
+          console.log(chalk.gray('🔁 This was the last occurrence of the series.'));
+        }
+        
       } catch (error) {
         console.error(chalk.red(`❌ Error completing task: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -363,76 +883,26 @@ Examples:
     .option('-d, --description <desc>', 'update description')
     .option('-p, --priority <priority>', 'update priority')
     .option('-s, --status <status>', 'update status')
-    .option('--due <date>', 'update due date')
+    .option('--due <date>', 'update due date (same formats as task add, "" to clear)')
     .option('--tags <tags>', 'update tags (comma-separated)')
+    .option('--item <text>', 'append a checklist item (repeatable)', collect)
+    .option('-r, --repeat <rule>', 'repeat schedule (daily, weekly, monthly, yearly, weekdays, an RRULE, or "none")')
     .option('-i, --interactive', 'interactive mode')
     .action(async (taskId, options) => {
       try {
-        const tasks = await loadTasks();
-        const taskIndex = tasks.findIndex(t => t.id === taskId);
+        const task = await taskRepository().get(taskId);
         
-        if (taskIndex === -1) {
+        if (!task) {
           console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
           return;
         }
         
-        const task = tasks[taskIndex];
         let updates: any = {};
         
         if (options.interactive) {
           console.log(chalk.cyan(`🎯 Updating task: ${task.title}\n`));
-          
-          const answers = await inquirer.prompt([
-            {
-              type: 'input',
-              name: 'title',
-              message: 'Update title:',
-              default: task.title
-            },
-            {
-              type: 'input',
-              name: 'description',
-              message: 'Update description:',
-              default: task.description
-            },
-            {
-              type: 'list',
-              name: 'priority',
-              message: 'Update priority:',
-              choices: PRIORITIES.map(p => ({
-                name: `${getPriorityIcon(p)} ${p.charAt(0).toUpperCase() + p.slice(1)}`,
-                value: p
-              })),
-              default: task.priority
-            },
-            {
-              type: 'list',
-              name: 'status',
-              message: 'Update status:',
-              choices: STATUSES.map(s => ({
-                name: `${getStatusIcon(s)} ${s.charAt(0).toUpperCase() + s.slice(1).replace('-', ' ')}`,
-                value: s
-              })),
-              default: task.status
-            },
-            {
-              type: 'input',
-              name: 'due',
-              message: 'Update due date (YYYY-MM-DD):',
-              default: task.due
-            },
-            {
-              type: 'input',
-              name: 'tags',
-              message: 'Update tags (comma-separated):',
-              default: task.tags.join(', ')
-            }
-          ]);
-          
-          updates = {
-            ...answers,
-            tags: answers.tags ? answers.tags.split(',').map(t => t.trim()).filter(Boolean) : []
-          };
+          updates = await promptTaskUpdates(task);
         } else {
           // Use provided options
           if (options.title) updates.title = options.title;
@@ -443,48 +913,48 @@ Examples:
           if (options.tags !== undefined) {
             updates.tags = options.tags ? options.tags.split(',').map(t => t.trim()) : [];
           }
+          if (options.item) {
+            updates.checklist = [...(task.checklist || []), ...toChecklist(options.item)];
+          }
+          if (options.repeat !== undefined) updates.repeat = options.repeat;
         }
         
         // Validate updates
-        if (updates.priority && !PRIORITIES.includes(updates.priority)) {
-          console.error(chalk.red(`❌ Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`));
-          return;
-        }
-        
-        if (updates.status && !STATUSES.includes(updates.status)) {
-          console.error(chalk.red(`❌ Invalid status. Must be one of: ${STATUSES.join(', ')}`));
+        const tasks = await taskRepository().list();
+        try {
+          updates = validateTaskUpdate(task, updates, tasks);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
           return;
         }
         
-        if (updates.due) {
-          const dueDate = new Date(updates.due);
-          if (isNaN(dueDate.getTime())) {
-            console.error(chalk.red('❌ Invalid due date format. Use YYYY-MM-DD'));
-            return;
-          }
-          updates.due = dueDate.toISOString().split('T')[0];
-        }
-        
         const spinner = ora('Updating task...').start();
         
-        // Apply updates
-        tasks[taskIndex] = {
-          ...task,
-          ...updates,
-          updatedAt: new Date().toISOString(),
-          ...(updates.status === 'completed' && !task.completedAt ? { completedAt: new Date().toISOString() } : {})
-        };
+        // Apply updates; completing stops a running timer, as with task complete
+        const completing = updates.status === 'completed' && task.status !== 'completed';
+        const timer = completing ? await timerRepository().get(task.id) : undefined;
+        const change = applyTaskUpdate(task, updates, new Map(tasks.map(t => [t.id, t])), timer);
+        const { task: updatedTask, nextTask } = change;
         
-        await saveTasks(tasks);
+        await saveTaskChanges([change]);
         
         spinner.succeed(chalk.green('✅ Task updated successfully!'));
+        reportOpenPrerequisites([change]);
+        
+        if (change.timerStopped) {
+          console.log(chalk.cyan(`⏱️  Timer stopped, ${formatDuration(loggedMinutes(updatedTask))} logged in total`));
+        }
         
-        const updatedTask = tasks[taskIndex];
+        if (nextTask) {
+          console.log(chalk.cyan(`🔁 Next occurrence created: ${nextTask.id}, due ${formatDue(nextTask.due)}`));
+        }
+
         console.log(boxen(
           `${getPriorityIcon(updatedTask.priority)} ${chalk.bold(updatedTask.title)}\n` +
           `${chalk.bold('Status:')} ${getStatusIcon(updatedTask.status)} ${updatedTask.status}\n` +
           `${chalk.bold('Priority:')} ${updatedTask.priority}\n` +
-          `${chalk.bold('Updated:')} ${new Date(updatedTask.updatedAt).toLocaleString()}`,
+          `${chalk.bold('Updated:')} ${formatDate(updatedTask.updatedAt)}`,
           {
             padding: 1,
             borderColor: 'blue'
@@ -493,25 +963,459 @@ Examples:
         
       } catch (error) {
         console.error(chalk.red(`❌ Error updating task: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
-  // Delete task command
+  // Start timer command
   taskCmd
-    .command('delete <taskId>')
-    .description('🗑️ Delete a task')
-    .option('-f, --force', 'force delete without confirmation')
-    .action(async (taskId, options) => {
+    .command('start <taskId>')
+    .description('▶️ Start a timer on a task (stops any other running timer)')
+    .action(async (taskId) => {
       try {
-        const tasks = await loadTasks();
-        const taskIndex = tasks.findIndex(t => t.id === taskId);
+        const task = await taskRepository().get(taskId);
         
-        if (taskIndex === -1) {
+        if (!task) {
           console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
           return;
         }
         
-        const task = tasks[taskIndex];
+        if (!isOpenTask(task)) {
+          console.error(chalk.red(`❌ Task "${task.title}" is ${task.status}, cannot track time on it.`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const timers = await timerRepository().list();
+        
+        const existing = timers.find(timer => timer.taskId === task.id);
+        if (existing) {
+          console.log(chalk.yellow(`Timer on "${task.title}" is already running since ${formatDate(existing.startedAt)}.`));
+          return;
+        }
+        
+        const now = new Date().toISOString();
+        
+        // Only one timer runs at a time
+        for (const timer of timers) {
+          const runningTask = await taskRepository().get(timer.taskId);
+          if (runningTask) {
+            await taskRepository().save(withTimerEntry(runningTask, timer, now));
+            console.log(chalk.gray(`⏹️  Stopped timer on "${runningTask.title}" (${formatDuration(minutesBetween(timer.startedAt, now))})`));
+          }
+          await timerRepository().remove(timer.taskId);
+        }
+        
+        await timerRepository().save({ taskId: task.id, startedAt: now });
+        
+        if (task.status === 'pending') {
+          await taskRepository().save({ ...task, status: 'in-progress', updatedAt: now });
+        }
+        
+        console.log(chalk.green(`▶️  Timer started on "${task.title}" at ${formatDate(now)}`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error starting timer: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Stop timer command
+  taskCmd
+    .command('stop [taskId]')
+    .description('⏹️ Stop the running timer and log the time')
+    .action(async (taskId) => {
+      try {
+        const timers = await timerRepository().list();
+        const timer = taskId ? timers.find(t => t.taskId === taskId) : timers[0];
+        
+        if (!timer) {
+          console.log(chalk.yellow(taskId ? `No timer is running on task ${taskId}.` : 'No timer is running.'));
+          return;
+        }
+        
+        const task = await taskRepository().get(timer.taskId);
+        await timerRepository().remove(timer.taskId);
+        
+        if (!task) {
+          console.log(chalk.yellow(`Task ${timer.taskId} no longer exists, timer discarded.`));
+          return;
+        }
+        
+        const now = new Date().toISOString();
+        const minutes = minutesBetween(timer.startedAt, now);
+        
+        if (minutes === 0) {
+          console.log(chalk.yellow(`Timer on "${task.title}" ran for less than a minute, nothing logged.`));
+          return;
+        }
+        
+        const trackedTask = withTimerEntry(task, timer, now);
+        await taskRepository().save(trackedTask);
+        
+        console.log(chalk.green(`⏹️  Logged ${formatDuration(minutes)} on "${task.title}" (${formatDuration(loggedMinutes(trackedTask))} in total)`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error stopping timer: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Log time command
+  taskCmd
+    .command('log <taskId> <duration>')
+    .description('⏱️ Log time spent on a task (e.g. 1h30m, 45m, 2h)')
+    .option('-m, --note <text>', 'what the time was spent on')
+    .option('--date <date>', 'when the work was done (defaults to now)')
+    .action(async (taskId, duration, options) => {
+      try {
+        const task = await taskRepository().get(taskId);
+        
+        if (!task) {
+          console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        let minutes: number;
+        let start = new Date().toISOString();
+        try {
+          minutes = parseDuration(duration);
+          if (options.date) {
+            start = new Date(dueTime(parseDueDate(options.date))).toISOString();
+          }
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const trackedTask: Task = {
+          ...task,
+          timeEntries: [
+            ...(task.timeEntries || []),
+            { start, minutes, ...(options.note ? { note: options.note } : {}) }
+          ],
+          updatedAt: new Date().toISOString()
+        };
+        
+        await taskRepository().save(trackedTask);
+        
+        console.log(chalk.green(`✅ Logged ${formatDuration(minutes)} on "${task.title}" (${formatDuration(loggedMinutes(trackedTask))} in total)`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error logging time: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Time report command
+  taskCmd
+    .command('report')
+    .description('📊 Report logged time by task, tag and assignee')
+    .option('--from <date>', 'only count time logged on or after this date')
+    .option('--to <date>', 'only count time logged on or before this date')
+    .option('--by <group>', 'only show one grouping (task, tag, assignee)')
+    .option('-f, --format <format>', 'output format (table, csv)', 'table')
+    .action(async (options) => {
+      if (options.by && !REPORT_GROUPS.includes(options.by)) {
+        console.error(chalk.red(`❌ Invalid grouping. Must be one of: ${REPORT_GROUPS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      try {
+        let from: number, to: number;
+        try {
+          [from, to] = parseReportRange(options.from, options.to);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const tasks = await taskRepository().list();
+        const userNames = await loadUserNames();
+        
+        const totals = {
+          task: new Map<string, number>(),
+          tag: new Map<string, number>(),
+          assignee: new Map<string, number>()
+        };
+        const add = (map: Map<string, number>, key: string, minutes: number) => map.set(key, (map.get(key) || 0) + minutes);
+        
+        tasks.forEach(task => {
+          const minutes = (task.timeEntries || [])
+            .filter(entry => {
+              const time = new Date(entry.start).getTime();
+              return time >= from && time < to;
+            })
+            .reduce((total, entry) => total + entry.minutes, 0);
+          
+          if (minutes === 0) return;
+          
+          add(totals.task, `${task.title} (${task.id})`, minutes);
+          (task.tags.length > 0 ? task.tags : ['(untagged)']).forEach(tag => add(totals.tag, tag, minutes));
+          add(totals.assignee, task.assignee ? userNames.get(task.assignee) || task.assignee : '(unassigned)', minutes);
+        });
+        
+        const grandTotal = [...totals.task.values()].reduce((total, minutes) => total + minutes, 0);
+        const groups = options.by ? [options.by] : REPORT_GROUPS;
+        const sorted = (map: Map<string, number>) => [...map.entries()].sort((a, b) => b[1] - a[1]);
+        
+        if (options.format === 'csv') {
+          const rows: unknown[][] = [['group', 'name', 'minutes', 'hours']];
+          groups.forEach(group => {
+            sorted(totals[group]).forEach(([name, minutes]) => rows.push([group, name, minutes, (minutes / 60).toFixed(2)]));
+          });
+          console.log(toCsv(rows));
+          return;
+        }
+        
+        if (grandTotal === 0) {
+          console.log(chalk.yellow('No time logged in this period.'));
+          return;
+        }
+        
+        const period = options.from || options.to
+          ? ` (${options.from ? formatDate(new Date(from), false) : '…'} - ${options.to ? formatDate(new Date(to - 1), false) : '…'})`
+          : '';
+        console.log(chalk.bold.cyan(`\n📊 Time Report${period}\n`));
+        
+        groups.forEach(group => {
+          const table = new Table({
+            head: [group.charAt(0).toUpperCase() + group.slice(1), 'Time', 'Hours'].map(h => chalk.cyan(h)),
+            style: { border: ['gray'] },
+            colWidths: [40, 12, 10]
+          });
+          
+          sorted(totals[group]).forEach(([name, minutes]) => {
+            table.push([name, formatDuration(minutes), (minutes / 60).toFixed(2)]);
+          });
+          
+          console.log(table.toString());
+        });
+        
+        console.log(chalk.bold(`\nTotal: ${formatDuration(grandTotal)} (${(grandTotal / 60).toFixed(2)} hours)`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error building report: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Checklist item command
+  taskCmd
+    .command('check <taskId> <itemIndex>')
+    .description('☑️ Check off a checklist item (1-based index)')
+    .option('-u, --uncheck', 'mark the item as not done')
+    .action(async (taskId, itemIndex, options) => {
+      try {
+        const task = await taskRepository().get(taskId);
+        
+        if (!task) {
+          console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const checklist = task.checklist || [];
+        const index = parseInt(itemIndex, 10) - 1;
+        
+        if (checklist.length === 0) {
+          console.error(chalk.red(`❌ Task "${task.title}" has no checklist items. Add some with: task update ${task.id} --item <text>`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        if (isNaN(index) || index < 0 || index >= checklist.length) {
+          console.error(chalk.red(`❌ Invalid item index. Must be between 1 and ${checklist.length}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const done = !options.uncheck;
+        const updatedChecklist = checklist.map((item, i) => i === index ? { ...item, done } : item);
+        
+        await taskRepository().save({
+          ...task,
+          checklist: updatedChecklist,
+          updatedAt: new Date().toISOString()
+        });
+        
+        const progress = taskProgress({ ...task, checklist: updatedChecklist }, await taskRepository().list());
+        console.log(chalk.green(`${done ? '✅ Checked' : '↩️  Unchecked'} "${checklist[index].text}" (${formatProgress(progress)} done)`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error updating checklist: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Task dependency command
+  taskCmd
+    .command('depend <taskId>')
+    .description('🔗 Make a task depend on other tasks')
+    .option('--on <taskIds>', 'comma-separated IDs of prerequisite tasks')
+    .option('--remove <taskIds>', 'comma-separated IDs of prerequisites to remove')
+    .action(async (taskId, options) => {
+      const addIds = parseIdList(options.on);
+      const removeIds = parseIdList(options.remove);
+      
+      if (addIds.length === 0 && removeIds.length === 0) {
+        console.error(chalk.red('❌ Please provide --on <taskIds> or --remove <taskIds>'));
+        process.exitCode = 1;
+        return;
+      }
+      
+      try {
+        const tasks = await taskRepository().list();
+        const tasksById = new Map(tasks.map(t => [t.id, t]));
+        const task = tasksById.get(taskId);
+        
+        if (!task) {
+          console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const missing = addIds.filter(id => !tasksById.has(id));
+        if (missing.length > 0) {
+          console.error(chalk.red(`❌ Task(s) not found: ${missing.join(', ')}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        if (addIds.includes(taskId)) {
+          console.error(chalk.red('❌ A task cannot depend on itself'));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const dependsOn = [...new Set([...(task.dependsOn || []), ...addIds])]
+          .filter(id => !removeIds.includes(id));
+        
+        const cycle = findCycle(tasks, taskId, dependsOn);
+        if (cycle) {
+          console.error(chalk.red('❌ Dependency cycle detected:'));
+          console.error(chalk.red(`  ${cycle.map(id => `${tasksById.get(id)?.title || id} (${id})`).join(' → ')}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const spinner = ora('Updating dependencies...').start();
+        
+        await taskRepository().save({
+          ...task,
+          dependsOn,
+          updatedAt: new Date().toISOString()
+        });
+        
+        spinner.succeed(chalk.green(`✅ Dependencies of "${task.title}" updated!`));
+        
+        if (dependsOn.length === 0) {
+          console.log(chalk.gray('No prerequisites left.'));
+        } else {
+          dependsOn.forEach(id => {
+            const dep = tasksById.get(id);
+            console.log(`  ${getStatusIcon(dep.status)} ${dep.title} ${chalk.gray(`(${dep.id})`)}`);
+          });
+        }
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error updating dependencies: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Assign task command
+  taskCmd
+    .command('assign <taskId> <userId>')
+    .description('👤 Assign a task to a user')
+    .action(async (taskId, userId) => {
+      try {
+        const task = await taskRepository().get(taskId);
+        
+        if (!task) {
+          console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const user = await userRepository().get(userId);
+        
+        if (!user) {
+          console.error(chalk.red(`❌ User with ID ${userId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const spinner = ora('Assigning task...').start();
+        
+        await taskRepository().save({
+          ...task,
+          assignee: user.id,
+          updatedAt: new Date().toISOString()
+        });
+        
+        spinner.succeed(chalk.green(`✅ Task "${task.title}" assigned to ${user.name}!`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error assigning task: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Unassign task command
+  taskCmd
+    .command('unassign <taskId>')
+    .description('🚫 Remove the assignee from a task')
+    .action(async (taskId) => {
+      try {
+        const task = await taskRepository().get(taskId);
+        
+        if (!task) {
+          console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        if (!task.assignee) {
+          console.log(chalk.yellow(`Task "${task.title}" is not assigned to anyone.`));
+          return;
+        }
+        
+        const spinner = ora('Unassigning task...').start();
+        
+        const { assignee, ...rest } = task;
+        await taskRepository().save({
+          ...rest,
+          updatedAt: new Date().toISOString()
+        });
+        
+        spinner.succeed(chalk.green(`✅ Task "${task.title}" is now unassigned!`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error unassigning task: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Delete task command
+  taskCmd
+    .command('delete <taskId>')
+    .description('🗑️ Delete a task')
+    .option('-f, --force', 'force delete without confirmation')
+    .action(async (taskId, options) => {
+      try {
+        const task = await taskRepository().get(taskId);
+        
+        if (!task) {
+          console.error(chalk.red(`❌ Task with ID ${taskId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
         
         if (!options.force) {
           const { confirm } = await inquirer.prompt([
@@ -531,33 +1435,62 @@ Examples:
         
         const spinner = ora('Deleting task...').start();
         
-        tasks.splice(taskIndex, 1);
-        await saveTasks(tasks);
+        // Subtasks of a deleted task become top-level tasks
+        const subtasks = detachSubtasks(task, await taskRepository().list());
+        if (subtasks.length > 0) {
+          await taskRepository().saveMany(subtasks);
+        }
+        
+        await taskRepository().remove(taskId);
         
-        spinner.succeed(chalk.green(`✅ Task "${task.title}" deleted successfully!`));
+        spinner.succeed(chalk.green(`✅ Task "${task.title}" moved to the trash`));
+        console.log(chalk.gray(`Restore with "task trash restore ${taskId}".`));
         
       } catch (error) {
         console.error(chalk.red(`❌ Error deleting task: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
+  // Deleted tasks
+  trashCommands<Task>(taskCmd, {
+    noun: 'task',
+    collection: 'tasks',
+    describe: task => `${getStatusIcon(task.status)} ${chalk.white.bold(task.title)} ${chalk.gray(`(${task.id})`)}`
+  });
+
   // Search tasks command
   taskCmd
     .command('search')
     .description('🔍 Search tasks')
-    .option('-t, --text <text>', 'search in title and description')
+    .option('-t, --text <text>', 'fuzzy search in title and description, best matches first')
     .option('--tag <tag>', 'search by tag')
-    .option('-i, --case-insensitive', 'case insensitive search')
+    .option('-a, --assignee <userId>', 'search by assignee (user ID, or "none" for unassigned)')
+    .option('-q, --query <query>', 'query expression or the name of a saved query')
+    .option('--exact', 'match --text as an exact substring instead of fuzzy')
+    .option('-i, --case-insensitive', 'case insensitive search (with --exact)')
     .action(async (options) => {
-      if (!options.text && !options.tag) {
-        console.error(chalk.red('❌ Please provide search criteria (--text or --tag)'));
+      if (!options.text && !options.tag && !options.assignee && !options.query) {
+        console.error(chalk.red('❌ Please provide search criteria (--text, --tag, --assignee or --query)'));
+        process.exitCode = 1;
         return;
       }
       
+      let query: QueryNode | undefined;
+      if (options.query) {
+        try {
+          query = await resolveQuery(options.query);
+        } catch (error) {
+          console.error(chalk.red(`❌ Invalid query: ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+      }
+      
       const spinner = ora('Searching tasks...').start();
       
       try {
-        const tasks = await loadTasks();
+        const tasks = await taskRepository().list();
         
         if (tasks.length === 0) {
           spinner.warn(chalk.yellow('No tasks found in database!'));
@@ -565,20 +1498,39 @@ Examples:
         }
         
         let results = tasks;
+        const ranking = new Map<string, { score: number; matches: Record<string, number[]> }>();
         
-        if (options.text) {
+        if (options.text && options.exact) {
           const searchText = options.caseInsensitive ? options.text.toLowerCase() : options.text;
           results = results.filter(task => {
             const title = options.caseInsensitive ? task.title.toLowerCase() : task.title;
             const description = options.caseInsensitive ? (task.description || '').toLowerCase() : task.description || '';
             return title.includes(searchText) || description.includes(searchText);
           });
+        } else if (options.text) {
+          const matches = fuzzySearch(results, options.text, {
+            title: { value: task => task.title },
+            description: { value: task => task.description, weight: 0.8 }
+          });
+          matches.forEach(match => ranking.set(match.item.id, match));
+          results = matches.map(match => match.item);
         }
         
         if (options.tag) {
           results = results.filter(task => task.tags.includes(options.tag));
         }
         
+        if (options.assignee) {
+          results = results.filter(task => matchesAssignee(task, options.assignee));
+        }
+        
+        if (query) {
+          const tasksById = new Map(tasks.map(task => [task.id, task]));
+          results = results.filter(task => matchesQuery(query, task, { tasksById }));
+        }
+        
+        results = applyLimit(results);
+        
         spinner.succeed(chalk.green(`✅ Found ${results.length} matching tasks`));
         
         if (results.length === 0) {
@@ -586,18 +1538,648 @@ Examples:
           return;
         }
         
+        const userNames = await loadUserNames();
+        
         console.log(chalk.bold.cyan('\n🔍 Search Results:\n'));
         results.forEach((task, index) => {
-          console.log(`${index + 1}. ${getStatusIcon(task.status)} ${chalk.white.bold(task.title)} ${chalk.gray(`(${task.id})`)}`);
+          const match = ranking.get(task.id);
+          const score = match ? ` ${chalk.gray(formatScore(match.score))}` : '';
+          console.log(`${index + 1}. ${getStatusIcon(task.status)} ${chalk.white.bold(highlight(task.title, match?.matches.title))} ${chalk.gray(`(${task.id})`)}${score}`);
           console.log(`   ${getPriorityIcon(task.priority)} ${task.priority} | ${task.status}`);
           if (task.description) {
-            console.log(`   📝 ${task.description}`);
+            console.log(`   📝 ${highlight(task.description, match?.matches.description)}`);
+          }
+          if (task.assignee) {
+            console.log(`   👤 ${formatAssignee(task.assignee, userNames)}`);
           }
           console.log();
         });
         
       } catch (error) {
         spinner.fail(chalk.red(`❌ Error searching tasks: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Saved queries
+  const queryCmd = taskCmd
+    .command('query')
+    .description('💾 Manage saved task queries');
+
+  queryCmd
+    .command('save <name> <expression>')
+    .description('Save a query under a name, for use with --query <name>')
+    .action(async (name, expression) => {
+      try {
+        if (!/^[\w-]+$/.test(name)) {
+          console.error(chalk.red('❌ Query names may only contain letters, numbers, "-" and "_"'));
+          process.exitCode = 1;
+          return;
+        }
+        
+        try {
+          parseQuery(expression);
+        } catch (error) {
+          console.error(chalk.red(`❌ Invalid query: ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const existing = await queryRepository().get(name);
+        await queryRepository().save({
+          name,
+          query: expression,
+          createdAt: existing?.createdAt || new Date().toISOString()
+        });
+        
+        console.log(chalk.green(`✅ Query "${name}" ${existing ? 'updated' : 'saved'}! Use it with: task list --query ${name}`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error saving query: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  queryCmd
+    .command('list')
+    .description('List saved queries')
+    .action(async () => {
+      try {
+        const queries = await queryRepository().list();
+        
+        if (queries.length === 0) {
+          console.log(chalk.yellow('No saved queries. Save one with: task query save <name> <expression>'));
+          return;
+        }
+        
+        console.log(chalk.bold.cyan('\n💾 Saved Queries:\n'));
+        applyLimit(queries.sort((a, b) => a.name.localeCompare(b.name)))
+          .forEach(query => console.log(`  ${chalk.white.bold(query.name)}  ${chalk.gray(query.query)}`));
+        console.log();
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error listing queries: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  queryCmd
+    .command('delete <name>')
+    .description('Delete a saved query')
+    .action(async (name) => {
+      try {
+        if (!(await queryRepository().remove(name))) {
+          console.error(chalk.red(`❌ Saved query "${name}" not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        console.log(chalk.green(`✅ Query "${name}" deleted!`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error deleting query: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Bulk operations
+  const bulkCmd = taskCmd
+    .command('bulk')
+    .description('📦 Complete, update, tag or delete many tasks at once')
+    .addHelpText('after', `
+
+Tasks are selected with the same filters as task list. Nothing is saved
+until you confirm; --dry-run only shows what would change.
+
+Examples:
+  $ pnpm cli task bulk complete --tag sprint-12 --dry-run
+  $ pnpm cli task bulk complete --tag sprint-12 --yes
+  $ pnpm cli task bulk update --status pending --tag backend --set-priority high
+  $ pnpm cli task bulk tag --query "is:overdue" --add late --remove next
+  $ pnpm cli task bulk delete --status cancelled
+`);
+
+  addBulkOptions(bulkCmd.command('complete'))
+    .description('✅ Complete the selected tasks')
+    .option('-f, --force', 'complete even if subtasks or checklist items are unfinished')
+    .action(async (options) => {
+      try {
+        const { selected, tasks } = await selectBulkTasks(options);
+        let toComplete = selected.filter(task => task.status !== 'completed');
+        const skipped: BulkSkip[] = [];
+        
+        // Subtasks completed in the same run don't hold back their parent,
+        // but a skipped subtask can hold back its parent in turn
+        while (!options.force) {
+          const ids = new Set(toComplete.map(task => task.id));
+          const projected = tasks.map(task => ids.has(task.id) ? { ...task, status: 'completed' as const } : task);
+          const blocked = toComplete
+            .map(task => ({ task, unfinished: unfinishedWork(task, projected) }))
+            .filter(({ unfinished }) => unfinished.subtasks.length > 0 || unfinished.items.length > 0);
+          if (blocked.length === 0) break;
+          
+          blocked.forEach(({ task, unfinished }) => {
+            const parts = [
+              unfinished.subtasks.length > 0 ? `${unfinished.subtasks.length} open subtask(s)` : '',
+              unfinished.items.length > 0 ? `${unfinished.items.length} unchecked item(s)` : ''
+            ].filter(Boolean);
+            skipped.push({ task, reason: `${parts.join(' and ')}, use --force to complete anyway` });
+          });
+          toComplete = toComplete.filter(task => !blocked.some(entry => entry.task === task));
+        }
+        
+        reportSkipped(skipped);
+        
+        if (toComplete.length === 0) {
+          console.log(chalk.yellow('No tasks to complete.'));
+          return;
+        }
+        
+        if (!(await confirmBulk('Complete', toComplete.map(task => ({ task })), options))) return;
+        
+        // Completed as task complete does: running timers stop, and tasks
+        // completed in the same run don't count as open prerequisites
+        const ids = new Set(toComplete.map(task => task.id));
+        const timersByTask = new Map((await timerRepository().list()).map(timer => [timer.taskId, timer]));
+        const projected = new Map(tasks.map(task => [task.id, ids.has(task.id) ? { ...task, status: 'completed' as const } : task]));
+        const now = new Date().toISOString();
+        const completions = toComplete.map(task => completeTask(task, projected, timersByTask.get(task.id), now));
+        const nextTasks = completions.map(completion => completion.nextTask).filter(Boolean);
+        const stopped = completions.filter(completion => completion.timerStopped).length;
+        reportOpenPrerequisites(completions);
+        
+        const spinner = ora(`Completing ${toComplete.length} tasks...`).start();
+        
+        await saveTaskChanges(completions);
+        
+        spinner.succeed(chalk.green(`✅ Completed ${completions.length} task(s)!`));
+        
+        if (stopped > 0) {
+          console.log(chalk.cyan(`⏱️  Stopped ${stopped} running timer(s)`));
+        }
+        
+        if (nextTasks.length > 0) {
+          console.log(chalk.cyan(`🔁 Created ${nextTasks.length} next occurrence(s) of repeating tasks`));
+        }
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error completing tasks: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  addBulkOptions(bulkCmd.command('update'))
+    .description('✏️ Update status, priority or due date of the selected tasks')
+    .option('--set-status <status>', 'new status')
+    .option('--set-priority <priority>', 'new priority')
+    .option('--set-due <date>', 'new due date (same formats as task add, "" to clear)')
+    .action(async (options) => {
+      const changes: Record<string, any> = {};
+      if (options.setStatus) changes.status = options.setStatus;
+      if (options.setPriority) changes.priority = options.setPriority;
+      if (options.setDue !== undefined) changes.due = options.setDue;
+      
+      if (Object.keys(changes).length === 0) {
+        console.error(chalk.red('❌ Nothing to update. Use --set-status, --set-priority or --set-due'));
+        process.exitCode = 1;
+        return;
+      }
+      
+      // Reject invalid values once, rather than once per task
+      if (changes.status && !STATUSES.includes(changes.status)) {
+        console.error(chalk.red(`❌ Invalid status. Must be one of: ${STATUSES.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      if (changes.priority && !PRIORITIES.includes(changes.priority)) {
+        console.error(chalk.red(`❌ Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      if (changes.due) {
+        try {
+          parseDueDate(changes.due);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+      }
+      
+      try {
+        const { selected, tasks } = await selectBulkTasks(options);
+        
+        const ids = new Set(selected.map(task => task.id));
+        const projected = changes.status
+          ? tasks.map(task => ids.has(task.id) ? { ...task, status: changes.status } : task)
+          : tasks;
+        
+        const updates: { task: Task; changes: Partial<Task> }[] = [];
+        const skipped: BulkSkip[] = [];
+        for (const task of selected) {
+          try {
+            const normalized = validateTaskUpdate(task, changes, projected);
+            if (Object.keys(normalized).some(field => normalized[field] !== task[field])) {
+              updates.push({ task, changes: normalized });
+            }
+          } catch (error) {
+            skipped.push({ task, reason: error.message });
+          }
+        }
+        
+        reportSkipped(skipped);
+        
+        if (updates.length === 0) {
+          console.log(chalk.yellow('No tasks to update.'));
+          return;
+        }
+        
+        const describe = (field: string, value: any) => {
+          if (!value) return 'none';
+          return field === 'due' ? formatDue(value) : value;
+        };
+        const preview = updates.map(({ task, changes }) => ({
+          task,
+          detail: Object.keys(changes)
+            .filter(field => changes[field] !== task[field])
+            .map(field => `${field}: ${describe(field, task[field])} → ${describe(field, changes[field])}`)
+            .join(', ')
+        }));
+        
+        if (!(await confirmBulk('Update', preview, options))) return;
+        
+        // Tasks completed here go through the same steps as task complete
+        const timersByTask = new Map((await timerRepository().list()).map(timer => [timer.taskId, timer]));
+        const projectedById = new Map(projected.map(task => [task.id, task]));
+        const results = updates.map(({ task, changes }) => applyTaskUpdate(task, changes, projectedById, timersByTask.get(task.id)));
+        const nextTasks = results.map(result => result.nextTask).filter(Boolean);
+        const stopped = results.filter(result => result.timerStopped).length;
+        reportOpenPrerequisites(results);
+        
+        const spinner = ora(`Updating ${updates.length} tasks...`).start();
+        
+        await saveTaskChanges(results);
+        
+        spinner.succeed(chalk.green(`✅ Updated ${results.length} task(s)!`));
+        
+        if (stopped > 0) {
+          console.log(chalk.cyan(`⏱️  Stopped ${stopped} running timer(s)`));
+        }
+        
+        if (nextTasks.length > 0) {
+          console.log(chalk.cyan(`🔁 Created ${nextTasks.length} next occurrence(s) of repeating tasks`));
+        }
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error updating tasks: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  addBulkOptions(bulkCmd.command('tag'))
+    .description('🏷️ Add or remove tags on the selected tasks')
+    .option('--add <tags>', 'tags to add (comma-separated)')
+    .option('--remove <tags>', 'tags to remove (comma-separated)')
+    .action(async (options) => {
+      const add = parseIdList(options.add);
+      const remove = parseIdList(options.remove);
+      
+      if (add.length === 0 && remove.length === 0) {
+        console.error(chalk.red('❌ Nothing to change. Use --add and/or --remove'));
+        process.exitCode = 1;
+        return;
+      }
+      
+      try {
+        const { selected } = await selectBulkTasks(options);
+        
+        const updates = selected
+          .map(task => {
+            const tags = [...new Set([...task.tags.filter(tag => !remove.includes(tag)), ...add])];
+            return { task, tags };
+          })
+          .filter(({ task, tags }) => tags.length !== task.tags.length || tags.some((tag, i) => tag !== task.tags[i]));
+        
+        if (updates.length === 0) {
+          console.log(chalk.yellow('No tasks need tag changes.'));
+          return;
+        }
+        
+        const preview = updates.map(({ task, tags }) => ({
+          task,
+          detail: tags.length > 0 ? tags.map(tag => `#${tag}`).join(' ') : 'no tags'
+        }));
+        
+        if (!(await confirmBulk('Retag', preview, options))) return;
+        
+        const spinner = ora(`Updating tags on ${updates.length} tasks...`).start();
+        
+        const now = new Date().toISOString();
+        await taskRepository().saveMany(updates.map(({ task, tags }) => ({ ...task, tags, updatedAt: now })));
+        
+        spinner.succeed(chalk.green(`✅ Updated tags on ${updates.length} task(s)!`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error updating tags: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  addBulkOptions(bulkCmd.command('delete'))
+    .description('🗑️ Delete the selected tasks')
+    .action(async (options) => {
+      try {
+        const { selected, tasks } = await selectBulkTasks(options);
+        
+        if (selected.length === 0) {
+          console.log(chalk.yellow('No tasks match the filters.'));
+          return;
+        }
+        
+        if (!(await confirmBulk('Delete', selected.map(task => ({ task })), options))) return;
+        
+        const spinner = ora(`Deleting ${selected.length} tasks...`).start();
+        
+        // Subtasks of deleted tasks become top-level tasks, unless deleted too
+        const ids = new Set(selected.map(task => task.id));
+        const subtasks = selected
+          .flatMap(task => detachSubtasks(task, tasks))
+          .filter(subtask => !ids.has(subtask.id));
+        
+        await taskRepository().removeMany([...ids]);
+        
+        if (subtasks.length > 0) {
+          await taskRepository().saveMany(subtasks);
+        }
+        
+        spinner.succeed(chalk.green(`✅ Moved ${selected.length} task(s) to the trash`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error deleting tasks: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Export tasks command
+  taskCmd
+    .command('export')
+    .description('📤 Export tasks as CSV, Markdown, todo.txt or iCalendar')
+    .option('-f, --format <format>', 'export format (csv, md, todotxt, ics), defaults to the --output extension or csv')
+    .option('-o, --output <file>', 'write to a file instead of standard output')
+    .option('--ics-type <type>', 'iCalendar item type (vtodo, vevent)', 'vtodo')
+    .option('-s, --status <status>', 'filter by status')
+    .option('-p, --priority <priority>', 'filter by priority')
+    .option('-t, --tag <tag>', 'filter by tag')
+    .option('-a, --assignee <userId>', 'filter by assignee (user ID, or "none" for unassigned)')
+    .option('-q, --query <query>', 'filter with a query expression or the name of a saved query')
+    .action(async (options: TaskOptions) => {
+      const format = options.format || (options.output && formatFromPath(options.output)) || 'csv';
+      if (!EXPORT_FORMATS.includes(format)) {
+        console.error(chalk.red(`❌ Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      if (!ICS_TYPES.includes(options.icsType)) {
+        console.error(chalk.red(`❌ Invalid iCalendar type. Must be one of: ${ICS_TYPES.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      try {
+        let query: QueryNode | undefined;
+        if (options.query) {
+          try {
+            query = await resolveQuery(options.query);
+          } catch (error) {
+            console.error(chalk.red(`❌ Invalid query: ${error.message}`));
+            process.exitCode = 1;
+            return;
+          }
+        }
+        
+        const tasks = filterTasks(await taskRepository().list(), options, query);
+        
+        let output: string;
+        switch (format) {
+          case 'md':
+            output = tasksToMarkdown(tasks);
+            break;
+          case 'todotxt':
+            output = tasksToTodoTxt(tasks);
+            break;
+          case 'ics':
+            output = tasksToIcs(tasks, options.icsType);
+            break;
+          default:
+            output = tasksToCsv(tasks);
+        }
+        
+        const undated = format === 'ics' && options.icsType === 'vevent' ? tasks.filter(task => !task.due).length : 0;
+        if (undated > 0) {
+          console.error(chalk.yellow(`⚠️  Left out ${undated} task(s) without a due date; events need one.`));
+        }
+        
+        if (!options.output) {
+          console.log(output);
+          return;
+        }
+        
+        const exportPath = path.resolve(options.output);
+        await fs.writeFile(exportPath, output.endsWith('\n') ? output : output + '\n');
+        
+        console.log(boxen(
+          `${chalk.bold('Export File:')} ${options.output}\n` +
+          `${chalk.bold('Full Path:')} ${exportPath}\n` +
+          `${chalk.bold('Format:')} ${format}${format === 'ics' ? ` (${options.icsType})` : ''}\n` +
+          `${chalk.bold('Tasks Exported:')} ${tasks.length - undated}`,
+          {
+            padding: 1,
+            borderColor: 'green'
+          }
+        ));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error exporting tasks: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Import tasks command
+  taskCmd
+    .command('import <file>')
+    .description('📥 Import tasks from CSV, JSON, todo.txt or iCalendar')
+    .option('-f, --format <format>', 'import format (csv, json, todotxt, ics), defaults to the file extension')
+    .option('-m, --map <mapping>', 'map columns to task fields for csv and json, e.g. "Task Name=title,Deadline=due"')
+    .option('--allow-duplicates', 'also import tasks whose title and due date match an existing task')
+    .option('--dry-run', 'show the preview without importing anything')
+    .option('-y, --yes', 'skip the confirmation prompt')
+    .addHelpText('after', `
+
+Fields: ${IMPORT_FIELDS.join(', ')}. CSV headers and JSON keys named
+like a field (in any case) are mapped automatically; --map covers the rest.
+Tags are comma-separated. Ids, subtasks and dependencies are not imported.
+
+Examples:
+  $ pnpm cli task import tasks.csv --dry-run
+  $ pnpm cli task import jira.csv --map "Summary=title,Due Date=due,Labels=tags"
+  $ pnpm cli task import todo.txt
+  $ pnpm cli task import calendar.ics --yes
+`)
+    .action(async (file: string, options: TaskOptions) => {
+      const format = options.format || formatFromPath(file);
+      if (!IMPORT_FORMATS.includes(format)) {
+        console.error(chalk.red(`❌ Cannot tell the format of "${file}". Use --format with one of: ${IMPORT_FORMATS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      let map: Record<string, string> = {};
+      if (options.map) {
+        if (format !== 'csv' && format !== 'json') {
+          console.error(chalk.red('❌ --map only applies to csv and json imports'));
+          process.exitCode = 1;
+          return;
+        }
+        try {
+          map = parseFieldMap(options.map);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+      }
+      
+      try {
+        let text: string;
+        try {
+          text = await fs.readFile(path.resolve(file), 'utf8');
+        } catch (error) {
+          if (error.code !== 'ENOENT') throw error;
+          console.error(chalk.red(`❌ File not found: ${file}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        let records: ImportRecord[];
+        let ignored: string[] = [];
+        try {
+          if (format === 'csv') {
+            ({ records, ignored } = parseTaskCsv(text, map));
+          } else if (format === 'json') {
+            ({ records, ignored } = parseTaskJson(text, map));
+          } else if (format === 'todotxt') {
+            records = parseTodoTxt(text);
+          } else {
+            records = parseIcs(text);
+          }
+        } catch (error) {
+          console.error(chalk.red(`❌ Could not read ${file} as ${format}: ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const [existing, users] = await Promise.all([taskRepository().list(), userRepository().list()]);
+        const userIds = new Set(users.map(user => user.id));
+        const seen = new Map(existing.map(task => [importKey(task), `task ${task.id}`]));
+        const defaultPriority = getConfig().defaultPriority;
+        
+        const imported: Task[] = [];
+        const invalid: string[] = [];
+        const duplicates: string[] = [];
+        
+        records.forEach((record, index) => {
+          let task: Task;
+          try {
+            task = buildImportedTask(record, defaultPriority);
+            if (task.assignee && !userIds.has(task.assignee)) {
+              throw new Error(`User with ID ${task.assignee} not found`);
+            }
+          } catch (error) {
+            invalid.push(`#${index + 1}: ${error.message}`);
+            return;
+          }
+          
+          const key = importKey(task);
+          if (seen.has(key) && !options.allowDuplicates) {
+            duplicates.push(`#${index + 1}: "${task.title}"${task.due ? ` (due ${formatDue(task.due)})` : ''} matches ${seen.get(key)}`);
+            return;
+          }
+          seen.set(key, `#${index + 1}`);
+          imported.push(task);
+        });
+        
+        console.log(chalk.bold.cyan(`\n📥 ${records.length} record(s) in ${file} (${format})`));
+        if (ignored.length > 0) {
+          console.log(chalk.gray(`Ignored ${format === 'csv' ? 'columns' : 'keys'}: ${ignored.join(', ')} (map them with --map)`));
+        }
+        
+        if (imported.length > 0) {
+          const table = new Table({
+            head: ['#', 'Title', 'Priority', 'Status', 'Due', 'Tags'].map(h => chalk.cyan(h)),
+            style: { border: ['gray'] },
+            colWidths: [5, 36, 12, 14, 14, 20]
+          });
+          imported.forEach((task, index) => {
+            table.push([
+              index + 1,
+              truncate(task.title, 34),
+              `${getPriorityIcon(task.priority)} ${task.priority}`,
+              `${getStatusIcon(task.status)} ${task.status}`,
+              task.due ? formatDue(task.due) : '-',
+              truncate(task.tags.join(', ') || '-', 18)
+            ]);
+          });
+          console.log(table.toString());
+        }
+        
+        if (duplicates.length > 0) {
+          console.log(chalk.yellow(`\n⚠️  Skipping ${duplicates.length} duplicate(s) (use --allow-duplicates to import them):`));
+          duplicates.forEach(line => console.log(chalk.yellow(`  • ${line}`)));
+        }
+        
+        if (invalid.length > 0) {
+          console.log(chalk.red(`\n❌ Skipping ${invalid.length} invalid record(s):`));
+          invalid.forEach(line => console.log(chalk.red(`  • ${line}`)));
+        }
+        
+        console.log();
+        
+        if (imported.length === 0) {
+          console.log(chalk.yellow('Nothing to import.'));
+          return;
+        }
+        
+        if (options.dryRun) {
+          console.log(chalk.yellow('Dry run: no tasks imported.'));
+          return;
+        }
+        
+        if (!options.yes) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Import ${imported.length} task(s)?`,
+              default: false
+            }
+          ]);
+          
+          if (!confirm) {
+            console.log(chalk.yellow('Operation cancelled.'));
+            return;
+          }
+        }
+        
+        const spinner = ora(`Importing ${imported.length} tasks...`).start();
+        await taskRepository().saveMany(imported);
+        spinner.succeed(chalk.green(`✅ Imported ${imported.length} task(s)`));
+        
+      } catch (error) {
+        console.error(chalk.red(`❌ Error importing tasks: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 
@@ -608,7 +2190,7 @@ Examples:
     .option('-f, --force', 'force clear without confirmation')
     .action(async (options) => {
       try {
-        const tasks = await loadTasks();
+        const tasks = await taskRepository().list();
         const completedTasks = tasks.filter(task => task.status === 'completed');
         
         if (completedTasks.length === 0) {
@@ -634,13 +2216,13 @@ Examples:
         
         const spinner = ora('Clearing completed tasks...').start();
         
-        const remainingTasks = tasks.filter(task => task.status !== 'completed');
-        await saveTasks(remainingTasks);
+        await taskRepository().removeMany(completedTasks.map(task => task.id));
         
-        spinner.succeed(chalk.green(`✅ Cleared ${completedTasks.length} completed tasks!`));
+        spinner.succeed(chalk.green(`✅ Moved ${completedTasks.length} completed tasks to the trash`));
         
       } catch (error) {
         console.error(chalk.red(`❌ Error clearing completed tasks: ${error.message}`));
+        process.exitCode = 1;
       }
     });
 }
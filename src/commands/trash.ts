@@ -0,0 +1,148 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { applyLimit, formatDate } from '../utils/config';
+import { parseOlderThan } from '../utils/dates';
+import { getTrash } from '../storage/index';
+import type { Command } from 'commander';
+import type { Tombstoned } from '../storage/index';
+
+export interface TrashCommandConfig<T> {
+  noun: string;
+  collection: string;
+  describe: (item: T) => string;
+  // Reason a record can't be restored right now, if any
+  checkRestore?: (item: T) => Promise<string | undefined>;
+}
+
+/**
+ * `<noun> trash list|restore|purge`, shared by the task and user commands.
+ */
+export function trashCommands<T extends Tombstoned & { id: string }>(parent: Command, config: TrashCommandConfig<T>): void {
+  const { noun, collection } = config;
+  const trash = () => getTrash<T>(collection);
+
+  const trashCmd = parent
+    .command('trash')
+    .description(`🗑️ Deleted ${noun}s, kept until purged`)
+    .addHelpText('after', `
+
+Examples:
+  $ pnpm cli ${noun} trash list
+  $ pnpm cli ${noun} trash restore abc123
+  $ pnpm cli ${noun} trash purge --older-than 30d
+`);
+
+  trashCmd
+    .command('list')
+    .description(`List deleted ${noun}s, most recently deleted first`)
+    .action(async () => {
+      try {
+        const items = applyLimit((await trash().list()).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)));
+
+        if (items.length === 0) {
+          console.log(chalk.yellow(`The ${noun} trash is empty.`));
+          return;
+        }
+
+        console.log(chalk.bold.cyan(`\n🗑️  Deleted ${noun}s (${items.length}):\n`));
+        items.forEach(item => {
+          console.log(`  ${config.describe(item)} ${chalk.gray(`deleted ${formatDate(item.deletedAt)}`)}`);
+        });
+        console.log(chalk.gray(`\nRestore with "${noun} trash restore <id>".\n`));
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error listing trash: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  trashCmd
+    .command('restore <ids...>')
+    .description(`Restore deleted ${noun}s`)
+    .action(async (ids: string[]) => {
+      try {
+        const deleted = new Map((await trash().list()).map(item => [item.id, item]));
+
+        const missing = ids.filter(id => !deleted.has(id));
+        if (missing.length > 0) {
+          console.error(chalk.red(`❌ Not in the ${noun} trash: ${missing.join(', ')}`));
+          process.exitCode = 1;
+          return;
+        }
+
+        if (config.checkRestore) {
+          for (const id of ids) {
+            const reason = await config.checkRestore(deleted.get(id));
+            if (reason) {
+              console.error(chalk.red(`❌ Cannot restore ${id}: ${reason}`));
+              process.exitCode = 1;
+              return;
+            }
+          }
+        }
+
+        const restored = await trash().restore(ids);
+        console.log(chalk.green(`✅ Restored ${restored.length} ${noun}(s):`));
+        restored.forEach(item => console.log(`  ${config.describe(item)}`));
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error restoring ${noun}s: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+
+  trashCmd
+    .command('purge [ids...]')
+    .description(`Permanently delete ${noun}s in the trash (all of them unless ids or --older-than are given)`)
+    .option('--older-than <age>', 'only those deleted longer ago than this (e.g. 30d, 2w, 6m)')
+    .option('-f, --force', 'purge without confirmation')
+    .action(async (ids: string[], options: { olderThan?: string; force?: boolean }) => {
+      try {
+        const cutoff = options.olderThan ? parseOlderThan(options.olderThan).toISOString() : undefined;
+
+        let items = await trash().list();
+        if (ids.length > 0) {
+          const missing = ids.filter(id => !items.some(item => item.id === id));
+          if (missing.length > 0) {
+            console.error(chalk.red(`❌ Not in the ${noun} trash: ${missing.join(', ')}`));
+            process.exitCode = 1;
+            return;
+          }
+          items = items.filter(item => ids.includes(item.id));
+        }
+        if (cutoff) {
+          items = items.filter(item => item.deletedAt < cutoff);
+        }
+
+        if (items.length === 0) {
+          console.log(chalk.yellow(`Nothing to purge from the ${noun} trash.`));
+          return;
+        }
+
+        if (!options.force) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Permanently delete ${items.length} ${noun}(s) from the trash?`,
+              default: false
+            }
+          ]);
+
+          if (!confirm) {
+            console.log(chalk.yellow('Operation cancelled.'));
+            return;
+          }
+        }
+
+        const spinner = ora('Purging trash...').start();
+        const purged = await trash().purge(items.map(item => item.id));
+        spinner.succeed(chalk.green(`✅ Purged ${purged} ${noun}(s) from the trash`));
+
+      } catch (error) {
+        console.error(chalk.red(`❌ Error purging trash: ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+}
@@ -5,34 +5,57 @@ import ora from 'ora';
 import inquirer from 'inquirer';
 import Table from 'cli-table3';
 import boxen from 'boxen';
+import { applyLimit, formatDate } from '../utils/config';
+import { PERMISSIONS, PERMISSION_DESCRIPTIONS, ROLE_PERMISSIONS } from '../utils/permissions';
+import {
+  MERGE_FIELDS,
+  PROFILE_TO_USER_ROLE,
+  USER_FIELDS,
+  checkUserFields,
+  compareWithProfile,
+  emailOwner,
+  mergeUsers,
+  parseUserImport,
+  reconcileWithProfile,
+  validateImportRow
+} from '../utils/users';
+import { getRepository, getTrash } from '../storage/index';
+import { isOpenTask } from '../utils/dependencies';
+import { formatScore, fuzzySearch, highlight } from '../utils/fuzzy';
+import { profileRepository } from './profile';
+import { trashCommands } from './trash';
 import type { Command } from 'commander';
-import type { User, UserOptions } from '../types/index';
-
-const USERS_FILE = path.resolve('./demo-files/users.json');
+import type { Repository } from '../storage/index';
+import type { ComparisonStatus, ImportRow, MergeResult } from '../utils/users';
+import type { ProfileData, Task, User, UserOptions } from '../types/index';
 
 // Helper functions
-async function loadUsers(): Promise<User[]> {
-  try {
-    const data = await fs.readFile(USERS_FILE, 'utf8');
-    return JSON.parse(data) as User[];
-  } catch (error) {
-    return [];
-  }
-}
-
-async function saveUsers(users: User[]): Promise<void> {
-  await fs.writeFile(USERS_FILE, JSON.stringify(users, null, 2));
+function userRepository(): Repository<User> {
+  return getRepository<User>('users');
 }
 
-function validateEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
+function taskRepository(): Repository<Task> {
+  return getRepository<Task>('tasks');
 }
 
 function generateId(): string {
   return Math.random().toString(36).substring(2, 9);
 }
 
+const IMPORT_FORMATS = ['csv', 'json'];
+
+// Inquirer validator built from a throwing check
+function promptCheck(check: (input: any) => void) {
+  return (input: any) => {
+    try {
+      check(input);
+      return true;
+    } catch (error) {
+      return error.message;
+    }
+  };
+}
+
 export function userCommands(program: Command): void {
   const userCmd = program
     .command('user')
@@ -46,6 +69,13 @@ Examples:
   $ pnpm cli user search --name "John"
   $ pnpm cli user update user123 --email newemail@example.com
   $ pnpm cli user delete user123 --force
+  $ pnpm cli user delete user123 --reassign user456
+  $ pnpm cli user delete user123 --unassign
+  $ pnpm cli user trash restore user123
+  $ pnpm cli user import team.csv --dry-run
+  $ pnpm cli user permissions user123
+  $ pnpm cli user merge user123 user456 --dry-run
+  $ pnpm cli user link-profile user123
 `);
 
   // Add user command
@@ -61,9 +91,13 @@ Examples:
         let userData: Partial<User> = { 
           name, 
           email, 
-          role: (options.role as User['role']) || 'user'
+          role: (options.role as User['role']) || 'user',
+          ...(options.age !== undefined ? { age: options.age } : {}),
+          ...(options.phone !== undefined ? { phone: options.phone } : {})
         };
         
+        const users = await userRepository().list();
+        
         // Interactive mode or missing required fields
         if (options.interactive || !name || !email) {
           console.log(chalk.cyan('🎯 Interactive User Creation\n'));
@@ -81,7 +115,7 @@ Examples:
               name: 'email',
               message: 'Enter email address:',
               default: email,
-              validate: (input: string) => validateEmail(input) || 'Please enter a valid email'
+              validate: promptCheck((input: string) => checkUserFields({ email: input }, users))
             },
             {
               type: 'list',
@@ -94,54 +128,51 @@ Examples:
               type: 'number',
               name: 'age',
               message: 'Enter age (optional):',
-              default: options.age
+              default: options.age,
+              validate: promptCheck((input: number | undefined) => input === undefined || checkUserFields({ age: input }, users))
             },
             {
               type: 'input',
               name: 'phone',
               message: 'Enter phone number (optional):',
-              default: options.phone
+              default: options.phone,
+              validate: promptCheck((input: string) => checkUserFields({ phone: input }, users))
             }
           ]);
           
           userData = { ...userData, ...answers };
+          if (userData.age === undefined) delete userData.age;
         }
         
         // Validate required fields
         if (!userData.name || !userData.email) {
           console.error(chalk.red('❌ Name and email are required!'));
+          process.exitCode = 1;
           return;
         }
         
-        if (!validateEmail(userData.email)) {
-          console.error(chalk.red('❌ Please provide a valid email address!'));
+        try {
+          userData = checkUserFields(userData, users);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
           return;
         }
         
         const spinner = ora('Adding user...').start();
         
-        const users = await loadUsers();
-        
-        // Check for duplicate email
-        const existingUser = users.find(u => u.email === userData.email);
-        if (existingUser) {
-          spinner.fail(chalk.red('❌ User with this email already exists!'));
-          return;
-        }
-        
         const newUser: User = {
           id: generateId(),
           name: userData.name,
           email: userData.email,
           role: userData.role as User['role'] || 'user',
-          age: userData.age,
-          phone: userData.phone,
+          ...(userData.age !== undefined ? { age: userData.age } : {}),
+          ...(userData.phone ? { phone: userData.phone } : {}),
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
         };
         
-        users.push(newUser);
-        await saveUsers(users);
+        await userRepository().save(newUser);
         
         spinner.succeed(chalk.green('✅ User added successfully!'));
         
@@ -150,7 +181,7 @@ Examples:
           `${chalk.bold('Name:')} ${newUser.name}\n` +
           `${chalk.bold('Email:')} ${newUser.email}\n` +
           `${chalk.bold('Role:')} ${newUser.role}\n` +
-          `${chalk.bold('Created:')} ${new Date(newUser.createdAt).toLocaleString()}`,
+          `${chalk.bold('Created:')} ${formatDate(newUser.createdAt)}`,
           {
             padding: 1,
             borderColor: 'green'
@@ -160,6 +191,7 @@ Examples:
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red(`❌ Error adding user: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -175,7 +207,7 @@ Examples:
       const spinner = ora('Loading users...').start();
       
       try {
-        let users = await loadUsers();
+        let users = await userRepository().list();
         
         if (users.length === 0) {
           spinner.warn(chalk.yellow('No users found. Add some users first!'));
@@ -195,10 +227,8 @@ Examples:
           return fieldA.localeCompare(fieldB);
         });
         
-        // Limit results
-        if (options.limit) {
-          users = users.slice(0, options.limit);
-        }
+        // Limit results (capped by config maxItems)
+        users = applyLimit(users, options.limit);
         
         spinner.succeed(chalk.green(`✅ Found ${users.length} users`));
         
@@ -217,7 +247,7 @@ Examples:
               user.name,
               user.email,
               chalk.yellow(user.role),
-              new Date(user.createdAt).toLocaleDateString()
+              formatDate(user.createdAt, false)
             ]);
           });
           
@@ -228,7 +258,7 @@ Examples:
             console.log(`${index + 1}. ${chalk.white.bold(user.name)} ${chalk.gray(`(${user.id})`)}`);
             console.log(`   📧 ${user.email}`);
             console.log(`   👤 ${chalk.yellow(user.role)}`);
-            console.log(`   📅 ${new Date(user.createdAt).toLocaleString()}`);
+            console.log(`   📅 ${formatDate(user.createdAt)}`);
             console.log();
           });
         }
@@ -236,6 +266,7 @@ Examples:
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         spinner.fail(chalk.red(`❌ Error loading users: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -243,15 +274,16 @@ Examples:
   userCmd
     .command('search')
     .description('🔍 Search users')
-    .option('-n, --name <name>', 'search by name')
-    .option('-e, --email <email>', 'search by email')
+    .option('-n, --name <name>', 'fuzzy search by name, best matches first')
+    .option('-e, --email <email>', 'fuzzy search by email, best matches first')
     .option('-r, --role <role>', 'search by role')
-    .option('-i, --case-insensitive', 'case insensitive search')
+    .option('--exact', 'match name and email as exact substrings instead of fuzzy')
+    .option('-i, --case-insensitive', 'case insensitive search (with --exact)')
     .action(async (options: UserOptions) => {
       const spinner = ora('Searching users...').start();
       
       try {
-        const users = await loadUsers();
+        const users = await userRepository().list();
         
         if (users.length === 0) {
           spinner.warn(chalk.yellow('No users found in database!'));
@@ -260,8 +292,25 @@ Examples:
         
         let results = users;
         
+        // Fuzzy matches: user id -> combined score and highlighted positions
+        const ranking = new Map<string, { score: number; name?: number[]; email?: number[] }>();
+        const rank = (field: 'name' | 'email', query: string) => {
+          const matches = fuzzySearch(results, query, { [field]: { value: (user: User) => user[field] } });
+          matches.forEach(match => {
+            const previous = ranking.get(match.item.id);
+            ranking.set(match.item.id, {
+              ...previous,
+              score: previous ? (previous.score + match.score) / 2 : match.score,
+              [field]: match.matches[field]
+            });
+          });
+          results = matches.map(match => match.item);
+        };
+        
         // Apply filters
-        if (options.name) {
+        if (options.name && !options.exact) {
+          rank('name', options.name);
+        } else if (options.name) {
           const searchName = options.caseInsensitive ? options.name.toLowerCase() : options.name;
           results = results.filter(user => {
             const userName = options.caseInsensitive ? user.name.toLowerCase() : user.name;
@@ -269,7 +318,9 @@ Examples:
           });
         }
         
-        if (options.email) {
+        if (options.email && !options.exact) {
+          rank('email', options.email);
+        } else if (options.email) {
           const searchEmail = options.caseInsensitive ? options.email.toLowerCase() : options.email;
           results = results.filter(user => {
             const userEmail = options.caseInsensitive ? user.email.toLowerCase() : user.email;
@@ -281,6 +332,12 @@ Examples:
           results = results.filter(user => user.role === options.role);
         }
         
+        if (ranking.size > 0) {
+          results.sort((a, b) => ranking.get(b.id).score - ranking.get(a.id).score);
+        }
+        
+        results = applyLimit(results);
+        
         spinner.succeed(chalk.green(`✅ Found ${results.length} matching users`));
         
         if (results.length === 0) {
@@ -290,8 +347,10 @@ Examples:
         
         console.log(chalk.bold.cyan('\n🔍 Search Results:\n'));
         results.forEach((user, index) => {
-          console.log(`${index + 1}. ${chalk.white.bold(user.name)} ${chalk.gray(`(${user.id})`)}`);
-          console.log(`   📧 ${user.email}`);
+          const match = ranking.get(user.id);
+          const score = match ? ` ${chalk.gray(formatScore(match.score))}` : '';
+          console.log(`${index + 1}. ${chalk.white.bold(highlight(user.name, match?.name))} ${chalk.gray(`(${user.id})`)}${score}`);
+          console.log(`   📧 ${highlight(user.email, match?.email)}`);
           console.log(`   👤 ${chalk.yellow(user.role)}`);
           console.log();
         });
@@ -299,6 +358,7 @@ Examples:
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         spinner.fail(chalk.red(`❌ Error searching users: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -313,37 +373,43 @@ Examples:
     .option('--age <age>', 'update age', parseInt)
     .action(async (userId: string, options: UserOptions) => {
       try {
-        const users = await loadUsers();
-        const userIndex = users.findIndex(u => u.id === userId);
+        const user = await userRepository().get(userId);
         
-        if (userIndex === -1) {
+        if (!user) {
           console.error(chalk.red(`❌ User with ID ${userId} not found!`));
+          process.exitCode = 1;
           return;
         }
 
-        const spinner = ora('Updating user...').start();
-        const user = users[userIndex];
-        
         // Apply updates
-        const updates: Partial<User> = {};
+        let updates: Partial<User> = {};
         if (options.name) updates.name = options.name;
         if (options.email) updates.email = options.email;
         if (options.role) updates.role = options.role as User['role'];
         if (options.phone !== undefined) updates.phone = options.phone;
         if (options.age !== undefined) updates.age = options.age;
         
-        users[userIndex] = {
+        try {
+          updates = checkUserFields(updates, await userRepository().list(), userId);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const spinner = ora('Updating user...').start();
+        
+        await userRepository().save({
           ...user,
           ...updates,
           updatedAt: new Date().toISOString()
-        };
-        
-        await saveUsers(users);
+        });
         spinner.succeed(chalk.green('✅ User updated successfully!'));
         
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red(`❌ Error updating user: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
@@ -352,17 +418,48 @@ Examples:
     .command('delete <userId>')
     .description('🗑️ Delete a user')
     .option('-f, --force', 'force delete without confirmation')
+    .option('--reassign <userId>', 'reassign the user\'s tasks to another user')
+    .option('--unassign', 'unassign the user\'s tasks')
     .action(async (userId: string, options: UserOptions) => {
       try {
-        const users = await loadUsers();
-        const userIndex = users.findIndex(u => u.id === userId);
+        const user = await userRepository().get(userId);
         
-        if (userIndex === -1) {
+        if (!user) {
           console.error(chalk.red(`❌ User with ID ${userId} not found!`));
+          process.exitCode = 1;
           return;
         }
         
-        const user = users[userIndex];
+        if (options.reassign && options.unassign) {
+          console.error(chalk.red('❌ Use either --reassign or --unassign, not both'));
+          process.exitCode = 1;
+          return;
+        }
+        
+        if (options.reassign) {
+          if (options.reassign === userId) {
+            console.error(chalk.red('❌ Cannot reassign tasks to the user being deleted'));
+            process.exitCode = 1;
+            return;
+          }
+          if (!(await userRepository().get(options.reassign))) {
+            console.error(chalk.red(`❌ User with ID ${options.reassign} not found!`));
+            process.exitCode = 1;
+            return;
+          }
+        }
+        
+        // Users who still own open tasks need an explicit decision
+        const ownedTasks = (await taskRepository().list()).filter(task => task.assignee === userId);
+        const openTasks = ownedTasks.filter(isOpenTask);
+        
+        if (openTasks.length > 0 && !options.reassign && !options.unassign) {
+          console.error(chalk.red(`❌ User "${user.name}" still owns ${openTasks.length} open task(s):`));
+          openTasks.forEach(task => console.error(chalk.red(`  • ${task.title} (${task.id})`)));
+          console.log(chalk.yellow('Use --reassign <userId> or --unassign to handle them.'));
+          process.exitCode = 1;
+          return;
+        }
         
         if (!options.force) {
           const { confirm } = await inquirer.prompt([
@@ -382,17 +479,534 @@ Examples:
         
         const spinner = ora('Deleting user...').start();
         
-        users.splice(userIndex, 1);
-        await saveUsers(users);
+        if (ownedTasks.length > 0 && (options.reassign || options.unassign)) {
+          const now = new Date().toISOString();
+          await taskRepository().saveMany(ownedTasks.map(task => {
+            const { assignee, ...rest } = task;
+            return options.reassign
+              ? { ...rest, assignee: options.reassign, updatedAt: now }
+              : { ...rest, updatedAt: now };
+          }));
+        }
+        
+        await userRepository().remove(userId);
         
-        spinner.succeed(chalk.green(`✅ User "${user.name}" deleted successfully!`));
+        spinner.succeed(chalk.green(`✅ User "${user.name}" moved to the trash`));
+        console.log(chalk.gray(`Restore with "user trash restore ${userId}".`));
+        
+        if (ownedTasks.length > 0 && (options.reassign || options.unassign)) {
+          console.log(chalk.gray(`${ownedTasks.length} task(s) ${options.reassign ? `reassigned to ${options.reassign}` : 'unassigned'}.`));
+        }
         
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red(`❌ Error deleting user: ${errorMessage}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Import users command
+  userCmd
+    .command('import <file>')
+    .description('📥 Import users from a CSV or JSON file')
+    .option('-f, --format <format>', 'file format (csv, json), defaults to the file extension')
+    .option('--upsert', 'update users whose email already exists instead of skipping them')
+    .option('--dry-run', 'validate and show the report without saving anything')
+    .option('-y, --yes', 'skip the confirmation prompt')
+    .addHelpText('after', `
+
+Columns (CSV header or JSON keys, any case): ${USER_FIELDS.join(', ')}.
+name and email are required; role defaults to "user".
+
+Examples:
+  $ pnpm cli user import team.csv --dry-run
+  $ pnpm cli user import team.json --upsert --yes
+`)
+    .action(async (file: string, options: UserOptions) => {
+      const format = options.format || path.extname(file).slice(1).toLowerCase();
+      if (!IMPORT_FORMATS.includes(format)) {
+        console.error(chalk.red(`❌ Cannot tell the format of "${file}". Use --format with one of: ${IMPORT_FORMATS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      try {
+        let text: string;
+        try {
+          text = await fs.readFile(path.resolve(file), 'utf8');
+        } catch (error) {
+          if (error.code !== 'ENOENT') throw error;
+          console.error(chalk.red(`❌ File not found: ${file}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        let rows: ImportRow[];
+        let ignored: string[];
+        try {
+          ({ rows, ignored } = parseUserImport(text, format));
+        } catch (error) {
+          console.error(chalk.red(`❌ Could not read ${file} as ${format}: ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const users = await userRepository().list();
+        const byEmail = new Map(users.map(user => [user.email.toLowerCase(), user]));
+        const seen = new Map<string, string>();
+        const now = new Date().toISOString();
+        
+        // Spreadsheet row numbers count the header line
+        const label = (index: number) => format === 'csv' ? `Row ${index + 2}` : `Item ${index + 1}`;
+        
+        const created: User[] = [];
+        const updated: User[] = [];
+        const report: string[][] = [];
+        const errors: string[] = [];
+        let skipped = 0;
+        
+        rows.forEach((row, index) => {
+          const { fields, errors: rowErrors } = validateImportRow(row);
+          const email = fields.email?.toLowerCase();
+          if (email && seen.has(email)) {
+            rowErrors.push(`Email ${fields.email} is already used by ${seen.get(email)}`);
+          }
+          
+          if (rowErrors.length > 0) {
+            errors.push(`${label(index)}: ${rowErrors.join('; ')}`);
+            report.push([label(index), fields.name || '-', row.email || '-', chalk.red('invalid')]);
+            return;
+          }
+          seen.set(email, label(index));
+          
+          const existing = byEmail.get(email);
+          if (!existing) {
+            created.push({
+              id: generateId(),
+              name: fields.name,
+              email: fields.email,
+              role: fields.role || 'user',
+              ...(fields.age !== undefined ? { age: fields.age } : {}),
+              ...(fields.phone ? { phone: fields.phone } : {}),
+              createdAt: now,
+              updatedAt: now
+            });
+            report.push([label(index), fields.name, fields.email, chalk.green('create')]);
+            return;
+          }
+          
+          if (!options.upsert) {
+            skipped++;
+            report.push([label(index), fields.name, fields.email, chalk.yellow(`skip: exists (${existing.id})`)]);
+            return;
+          }
+          
+          const changed = Object.keys(fields).filter(key => fields[key] !== existing[key]);
+          if (changed.length === 0) {
+            report.push([label(index), fields.name, fields.email, chalk.gray('unchanged')]);
+            return;
+          }
+          updated.push({ ...existing, ...fields, updatedAt: now });
+          report.push([label(index), fields.name, fields.email, chalk.cyan(`update: ${changed.join(', ')}`)]);
+        });
+        
+        console.log(chalk.bold.cyan(`\n📥 ${rows.length} row(s) in ${file} (${format})`));
+        if (ignored.length > 0) {
+          console.log(chalk.gray(`Ignored columns: ${ignored.join(', ')}`));
+        }
+        
+        if (report.length > 0) {
+          const table = new Table({
+            head: ['#', 'Name', 'Email', 'Result'].map(h => chalk.cyan(h)),
+            style: { border: ['gray'] }
+          });
+          report.forEach(line => table.push(line));
+          console.log(table.toString());
+        }
+        
+        if (errors.length > 0) {
+          console.log(chalk.red(`\n❌ ${errors.length} invalid row(s):`));
+          errors.forEach(line => console.log(chalk.red(`  • ${line}`)));
+        }
+        
+        console.log(chalk.bold(`\n${created.length} to create, ${updated.length} to update, ${skipped} duplicate(s) skipped, ${errors.length} invalid\n`));
+        
+        if (created.length + updated.length === 0) {
+          console.log(chalk.yellow('Nothing to import.'));
+          return;
+        }
+        
+        if (options.dryRun) {
+          console.log(chalk.yellow('Dry run: no users imported.'));
+          return;
+        }
+        
+        if (!options.yes) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Create ${created.length} and update ${updated.length} user(s)?`,
+              default: false
+            }
+          ]);
+          
+          if (!confirm) {
+            console.log(chalk.yellow('Operation cancelled.'));
+            return;
+          }
+        }
+        
+        const spinner = ora('Importing users...').start();
+        await userRepository().saveMany([...created, ...updated]);
+        spinner.succeed(chalk.green(`✅ Imported users: ${created.length} created, ${updated.length} updated`));
+        
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red(`❌ Error importing users: ${errorMessage}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Merge users command
+  userCmd
+    .command('merge <keepId> <dropId>')
+    .description('🔀 Merge a duplicate user into another and re-point their tasks')
+    .option('--take <fields>', `comma-separated fields to take from the dropped user where both differ (${MERGE_FIELDS.join(', ')})`)
+    .option('--dry-run', 'show the merge without saving anything')
+    .option('-y, --yes', 'skip the confirmation prompt')
+    .addHelpText('after', `
+
+Blank fields of the kept user are filled from the dropped one; where both
+have a value the kept user's wins unless the field is listed in --take.
+Tasks assigned to the dropped user are reassigned, and the dropped user
+moves to the trash.
+
+Examples:
+  $ pnpm cli user merge user123 user456 --dry-run
+  $ pnpm cli user merge user123 user456 --take phone,role --yes
+`)
+    .action(async (keepId: string, dropId: string, options: UserOptions) => {
+      try {
+        if (keepId === dropId) {
+          console.error(chalk.red('❌ Cannot merge a user into themselves'));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const take = options.take ? options.take.split(',').map(field => field.trim()).filter(Boolean) : [];
+        const unknown = take.filter(field => !MERGE_FIELDS.includes(field));
+        if (unknown.length > 0) {
+          console.error(chalk.red(`❌ Unknown field(s) in --take: ${unknown.join(', ')}. Must be among: ${MERGE_FIELDS.join(', ')}`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const users = await userRepository().list();
+        const keep = users.find(user => user.id === keepId);
+        const drop = users.find(user => user.id === dropId);
+        for (const [id, user] of [[keepId, keep], [dropId, drop]] as const) {
+          if (!user) {
+            console.error(chalk.red(`❌ User with ID ${id} not found!`));
+            process.exitCode = 1;
+            return;
+          }
+        }
+        
+        const { merged, fields } = mergeUsers(keep, drop, take);
+        
+        // The dropped user's email is free once they are merged
+        let checked: Partial<User>;
+        try {
+          checked = checkUserFields({ email: merged.email }, users.filter(user => user.id !== dropId), keepId);
+        } catch (error) {
+          console.error(chalk.red(`❌ ${error.message}`));
+          process.exitCode = 1;
+          return;
+        }
+        const result: User = { ...merged, ...checked, updatedAt: new Date().toISOString() };
+        
+        // Trashed tasks too, so restoring one doesn't bring back a dangling assignee
+        const tasks = [...(await taskRepository().list()), ...(await getTrash<Task>('tasks').list())]
+          .filter(task => task.assignee === dropId);
+        
+        console.log(chalk.bold.cyan(`\n🔀 Merge ${drop.name} (${dropId}) into ${keep.name} (${keepId}):\n`));
+        
+        const resultColors: Record<MergeResult, (text: string) => string> = {
+          same: chalk.gray,
+          kept: chalk.yellow,
+          taken: chalk.cyan,
+          filled: chalk.green
+        };
+        const show = (value: any) => value === undefined || value === '' ? chalk.gray('-') : String(value);
+        const table = new Table({
+          head: ['Field', `Keep (${keepId})`, `Drop (${dropId})`, 'Result'].map(h => chalk.cyan(h)),
+          style: { border: ['gray'] }
+        });
+        fields.forEach(({ field, keep: keepValue, drop: dropValue, result: outcome }) => {
+          table.push([field, show(keepValue), show(dropValue), resultColors[outcome](outcome)]);
+        });
+        console.log(table.toString());
+        
+        const conflicts = fields.filter(({ keep: keepValue, drop: dropValue, result: outcome }) =>
+          outcome === 'kept' && dropValue !== undefined && dropValue !== '' && keepValue !== undefined);
+        if (conflicts.length > 0) {
+          console.log(chalk.yellow(`\n⚠️  Kept ${keep.name}'s value for: ${conflicts.map(({ field }) => field).join(', ')} (use --take to prefer ${drop.name}'s)`));
+        }
+        console.log(chalk.gray(`\n${tasks.length} task(s) will be reassigned to ${keepId}; ${drop.name} moves to the trash.\n`));
+        
+        if (options.dryRun) {
+          console.log(chalk.yellow('Dry run: no changes made.'));
+          return;
+        }
+        
+        if (!options.yes) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Merge ${drop.name} into ${keep.name}?`,
+              default: false
+            }
+          ]);
+          
+          if (!confirm) {
+            console.log(chalk.yellow('Operation cancelled.'));
+            return;
+          }
+        }
+        
+        const spinner = ora('Merging users...').start();
+        
+        if (tasks.length > 0) {
+          const now = new Date().toISOString();
+          await taskRepository().saveMany(tasks.map(task => ({ ...task, assignee: keepId, updatedAt: now })));
+        }
+        
+        // Trash the duplicate first so the kept user can take over its email
+        await userRepository().remove(dropId);
+        await userRepository().save(result);
+        
+        spinner.succeed(chalk.green(`✅ Merged ${drop.name} into ${keep.name}; ${tasks.length} task(s) reassigned`));
+        
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red(`❌ Error merging users: ${errorMessage}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // Link user to profile command
+  userCmd
+    .command('link-profile <userId> [profileName]')
+    .description('🔗 Link a user to their profile and reconcile the two field by field')
+    .option('--prefer <side>', 'copy differing fields from this side to the other (user, profile)')
+    .option('--dry-run', 'show the comparison without saving anything')
+    .option('-y, --yes', 'skip the confirmation prompt')
+    .addHelpText('after', `
+
+Without a profile name the profile with the user's email is used.
+Profile roles map to user roles as admin -> admin and developer, designer,
+user -> user. A profile's name is its key and is never overwritten.
+
+Examples:
+  $ pnpm cli user link-profile user123
+  $ pnpm cli user link-profile user123 jane --prefer user
+`)
+    .action(async (userId: string, profileName: string | undefined, options: UserOptions) => {
+      if (options.prefer && !['user', 'profile'].includes(options.prefer)) {
+        console.error(chalk.red('❌ Invalid --prefer. Must be one of: user, profile'));
+        process.exitCode = 1;
+        return;
+      }
+      
+      try {
+        const users = await userRepository().list();
+        const user = users.find(u => u.id === userId);
+        if (!user) {
+          console.error(chalk.red(`❌ User with ID ${userId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        let profile: ProfileData | undefined;
+        if (profileName) {
+          profile = await profileRepository().get(profileName.toLowerCase());
+          if (!profile) {
+            console.error(chalk.red(`❌ Profile '${profileName}' not found`));
+            process.exitCode = 1;
+            return;
+          }
+        } else {
+          const matches = (await profileRepository().list())
+            .filter(p => p.email && p.email.toLowerCase() === user.email.toLowerCase());
+          if (matches.length === 0) {
+            console.error(chalk.red(`❌ No profile has the email ${user.email}. Pass a profile name to link one anyway.`));
+            process.exitCode = 1;
+            return;
+          }
+          if (matches.length > 1) {
+            console.error(chalk.red(`❌ Several profiles have the email ${user.email}: ${matches.map(p => p.name).join(', ')}. Pass the profile name to pick one.`));
+            process.exitCode = 1;
+            return;
+          }
+          profile = matches[0];
+        }
+        
+        const linkedTo = users.find(u => u.id !== userId && u.profile === profile.name.toLowerCase());
+        if (linkedTo) {
+          console.error(chalk.red(`❌ Profile '${profile.name}' is already linked to ${linkedTo.name} (${linkedTo.id}). Merge the two users with "user merge" instead.`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const comparison = compareWithProfile(user, profile);
+        
+        console.log(chalk.bold.cyan(`\n🔗 ${user.name} (${user.id}) and profile '${profile.name}':\n`));
+        
+        const statusColors: Record<ComparisonStatus, (text: string) => string> = {
+          same: chalk.green,
+          conflict: chalk.red,
+          'user only': chalk.yellow,
+          'profile only': chalk.yellow
+        };
+        const show = (value: any) => value === undefined || value === '' ? chalk.gray('-') : String(value);
+        const table = new Table({
+          head: ['Field', 'User', 'Profile', 'Status'].map(h => chalk.cyan(h)),
+          style: { border: ['gray'] }
+        });
+        comparison.forEach(({ field, user: userValue, profile: profileValue, status }) => {
+          const profileShown = field === 'role' ? `${profileValue} (${PROFILE_TO_USER_ROLE[profile.role]})` : show(profileValue);
+          table.push([field, show(userValue), profileShown, statusColors[status](status)]);
+        });
+        console.log(table.toString());
+        
+        const differing = comparison.filter(({ status }) => status !== 'same');
+        const reconciled = options.prefer ? reconcileWithProfile(user, profile, options.prefer) : undefined;
+        
+        if (differing.length === 0) {
+          console.log(chalk.green('\n✅ User and profile agree on every field.'));
+        } else if (!reconciled) {
+          console.log(chalk.yellow(`\n⚠️  ${differing.length} field(s) differ. Use --prefer user or --prefer profile to copy them over.`));
+        } else if (reconciled.copied.length > 0) {
+          const target = options.prefer === 'user' ? `profile '${profile.name}'` : user.name;
+          console.log(chalk.cyan(`\nWill copy ${reconciled.copied.join(', ')} to ${target}.`));
+        }
+        
+        const alreadyLinked = user.profile === profile.name.toLowerCase();
+        const copies = reconciled?.copied.length || 0;
+        if (alreadyLinked && copies === 0) {
+          console.log(chalk.gray(`\n${user.name} is already linked to profile '${profile.name}'.\n`));
+          return;
+        }
+        console.log();
+        
+        if (options.dryRun) {
+          console.log(chalk.yellow('Dry run: no changes made.'));
+          return;
+        }
+        
+        if (!options.yes) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Link ${user.name} to profile '${profile.name}'${copies > 0 ? ` and copy ${copies} field(s)` : ''}?`,
+              default: false
+            }
+          ]);
+          
+          if (!confirm) {
+            console.log(chalk.yellow('Operation cancelled.'));
+            return;
+          }
+        }
+        
+        let nextUser: User = { ...(reconciled?.user || user), profile: profile.name.toLowerCase() };
+        if (options.prefer === 'profile' && copies > 0) {
+          try {
+            nextUser = { ...nextUser, ...checkUserFields(
+              { email: nextUser.email, role: nextUser.role, age: nextUser.age },
+              users,
+              userId
+            ) };
+          } catch (error) {
+            console.error(chalk.red(`❌ Cannot copy the profile's fields: ${error.message}`));
+            process.exitCode = 1;
+            return;
+          }
+        }
+        
+        const spinner = ora('Linking profile...').start();
+        if (options.prefer === 'user' && copies > 0) {
+          await profileRepository().save(reconciled.profile);
+        }
+        await userRepository().save({ ...nextUser, updatedAt: new Date().toISOString() });
+        spinner.succeed(chalk.green(`✅ Linked ${user.name} to profile '${profile.name}'${copies > 0 ? `; copied ${reconciled.copied.join(', ')}` : ''}`));
+        
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red(`❌ Error linking profile: ${errorMessage}`));
+        process.exitCode = 1;
+      }
+    });
+
+  // User permissions command
+  userCmd
+    .command('permissions <userId>')
+    .description('🔐 Show what a user may do, based on their role')
+    .option('-f, --format <format>', 'output format (table, json)', 'table')
+    .action(async (userId: string, options: UserOptions) => {
+      try {
+        const user = await userRepository().get(userId);
+        
+        if (!user) {
+          console.error(chalk.red(`❌ User with ID ${userId} not found!`));
+          process.exitCode = 1;
+          return;
+        }
+        
+        const allowed = ROLE_PERMISSIONS[user.role];
+        
+        if (options.format === 'json') {
+          console.log(JSON.stringify({ id: user.id, role: user.role, permissions: allowed }, null, 2));
+          return;
+        }
+        
+        console.log(chalk.bold.cyan(`\n🔐 Permissions of ${user.name} (${user.id}), role ${user.role}:\n`));
+        
+        const table = new Table({
+          head: ['Permission', 'Allowed', 'Covers'].map(h => chalk.cyan(h)),
+          style: { border: ['gray'] }
+        });
+        PERMISSIONS.forEach(permission => {
+          table.push([
+            permission,
+            allowed.includes(permission) ? chalk.green('✅ yes') : chalk.red('❌ no'),
+            PERMISSION_DESCRIPTIONS[permission]
+          ]);
+        });
+        console.log(table.toString());
+        console.log(chalk.gray(`\nRun commands as this user with --as ${user.id} or DEMO_CLI_USER=${user.id}.\n`));
+        
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red(`❌ Error loading permissions: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 
+  // Deleted users
+  trashCommands<User>(userCmd, {
+    noun: 'user',
+    collection: 'users',
+    describe: user => `${chalk.white.bold(user.name)} ${chalk.gray(`(${user.id})`)} 📧 ${user.email}`,
+    checkRestore: async (user) => {
+      const taken = emailOwner(await userRepository().list(), user.email);
+      return taken ? `${user.email} now belongs to ${taken.name} (${taken.id})` : undefined;
+    }
+  });
+
   // Clear all users command
   userCmd
     .command('clear')
@@ -400,7 +1014,7 @@ Examples:
     .option('-f, --force', 'force clear without confirmation')
     .action(async (options: UserOptions) => {
       try {
-        const users = await loadUsers();
+        const users = await userRepository().list();
         
         if (users.length === 0) {
           console.log(chalk.yellow('No users to clear.'));
@@ -425,13 +1039,15 @@ Examples:
         
         const spinner = ora('Clearing all users...').start();
         
-        await saveUsers([]);
+        await userRepository().replaceAll([]);
         
-        spinner.succeed(chalk.green(`✅ All ${users.length} users cleared!`));
+        spinner.succeed(chalk.green(`✅ All ${users.length} users moved to the trash`));
+        console.log(chalk.gray('See them with "user trash list".'));
         
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red(`❌ Error clearing users: ${errorMessage}`));
+        process.exitCode = 1;
       }
     });
 }
@@ -6,13 +6,23 @@ import figlet from 'figlet';
 import gradient from 'gradient-string';
 import boxen from 'boxen';
 import { createRequire } from 'module';
-import { fileCommands } from './commands/files';
-import { createProfileCommand } from './commands/profile';
-import { userCommands } from './commands/users';
-import { taskCommands } from './commands/tasks';
-import { systemCommands } from './commands/system';
-import { configCommands } from './commands/config';
-import type { CommandOptions } from './types/index';
+import { applyColorOutput, initRuntimeConfig } from './utils/config';
+import { assertPermission, commandPath, isBootstrap, requiredPermission, setCommandPermission, setCurrentUser } from './utils/permissions';
+import { getRepository, getTrash } from './storage/index';
+import type { CommandOptions, Config, User } from './types/index';
+
+// The command modules load ora, cli-table3 and inquirer, which pick their
+// colours on load, so a saved colorOutput: false has to be applied first
+await applyColorOutput();
+const { fileCommands } = await import('./commands/files');
+const { createProfileCommand } = await import('./commands/profile');
+const { userCommands } = await import('./commands/users');
+const { taskCommands } = await import('./commands/tasks');
+const { systemCommands } = await import('./commands/system');
+const { configCommands } = await import('./commands/config');
+const { searchCommands } = await import('./commands/search');
+const { historyCommands } = await import('./commands/history');
+const { auditCommands } = await import('./commands/audit');
 
 const require = createRequire(import.meta.url);
 const pkg = require('../package.json');
@@ -52,17 +62,54 @@ program
   .option('-d, --debug', 'enable debug mode')
   .option('-c, --config <path>', 'specify config file path')
   .option('--no-color', 'disable colored output')
+  .option('--as <userId>', 'run as this user, with the permissions of their role (or set DEMO_CLI_USER)')
   .helpOption('-h, --help', 'display help for command')
   .addHelpText('before', () => {
     showWelcome();
     return '';
   });
 
-// Global middleware for debug mode
-program.hook('preAction', (_thisCommand, actionCommand) => {
+// Global middleware: load runtime config, check permissions, then debug mode
+program.hook('preAction', async (_thisCommand, actionCommand) => {
   const options = program.opts() as CommandOptions;
   
-  if (options.debug) {
+  let config: Config;
+  try {
+    config = await initRuntimeConfig(options.config, {
+      ...(options.debug ? { debug: true } : {}),
+      ...(options.color === false ? { colorOutput: false } : {})
+    });
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : 'Failed to load configuration'}`));
+    process.exit(1);
+  }
+  
+  // Commands run as the --as user, or with the defaultRole setting
+  const userId = options.as || process.env.DEMO_CLI_USER;
+  const path = commandPath(actionCommand);
+  try {
+    const users = getRepository<User>('users');
+    const user = userId ? await users.get(userId) : undefined;
+    if (userId && !user) {
+      throw new Error(`Unknown user "${userId}" given with ${options.as ? '--as' : 'DEMO_CLI_USER'}`);
+    }
+    setCurrentUser(user, config.defaultRole);
+    
+    const permission = requiredPermission(path);
+    setCommandPermission(permission);
+    try {
+      assertPermission(permission, `"${path}"`);
+    } catch (error) {
+      // Trashed users count, or emptying the list would reopen user add
+      const storedUsers = (await users.list()).length + (await getTrash<User>('users').list()).length;
+      if (!isBootstrap(path, user, storedUsers)) throw error;
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : 'Permission check failed'}`));
+    process.exit(1);
+  }
+  
+  if (config.debug) {
     console.log(chalk.yellow('🐛 Debug Mode Enabled'));
     console.log(chalk.gray(`Command: ${actionCommand.name()}`));
     console.log(chalk.gray(`Args: ${JSON.stringify(actionCommand.args)}`));
@@ -78,6 +125,9 @@ userCommands(program);
 systemCommands(program);
 taskCommands(program);
 configCommands(program);
+searchCommands(program);
+historyCommands(program);
+auditCommands(program);
 
 // Custom help command with examples
 program
@@ -96,6 +146,10 @@ program
       { cmd: 'pnpm cli system info --detailed', desc: 'Show detailed system info' },
       { cmd: 'pnpm cli task add "Complete demo"', desc: 'Add a new task' },
       { cmd: 'pnpm cli config set theme dark', desc: 'Set configuration value' },
+      { cmd: 'pnpm cli search "documentation"', desc: 'Fuzzy search tasks, users, profiles and files' },
+      { cmd: 'pnpm cli undo', desc: 'Undo the last change (see also redo, history)' },
+      { cmd: 'pnpm cli audit list --entity task:abc123', desc: 'Show who changed a task and how' },
+      { cmd: 'pnpm cli --as user123 task list', desc: 'Run as a user, with the permissions of their role' },
       { cmd: 'pnpm cli --debug profile view john', desc: 'Run with debug mode' },
       { cmd: 'pnpm commands', desc: 'List all available pnpm commands' }
     ];
@@ -160,7 +214,7 @@ process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
 });
 
 // Parse arguments
-program.parse();
+await program.parseAsync();
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
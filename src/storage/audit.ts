@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { StorageError } from './repository';
+import { getCurrentUser } from '../utils/permissions';
+import type { JournalChange } from './journal';
+
+/**
+ * Append-only audit log: who ran which command, and which fields of which
+ * record it changed. Unlike the undo journal it is never trimmed or
+ * rewritten; each write appends one JSON line per changed record.
+ */
+
+export type ChangeKind = 'created' | 'updated' | 'trashed' | 'restored' | 'removed';
+
+export interface FieldChange {
+  from?: any;
+  to?: any;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  user: string;    // OS account that ran the command
+  actor?: string;  // demo-cli user id given with --as or DEMO_CLI_USER
+  command: string;
+  entity: string;  // "task:abc123", "user:u1", "config:theme"
+  action: ChangeKind;
+  changes: Record<string, FieldChange>;
+}
+
+export const AUDIT_FILE = path.resolve('./demo-files/audit.log');
+
+// Collection -> entity type used in `audit list --entity`
+const ENTITY_TYPES: Record<string, string> = {
+  tasks: 'task',
+  users: 'user',
+  profiles: 'profile',
+  timers: 'timer',
+  queries: 'query',
+  config: 'config'
+};
+
+// Bookkeeping that changes on every write and only adds noise to a diff
+const IGNORED_FIELDS = ['updatedAt'];
+
+export function commandLine(): string {
+  const args = process.argv.slice(2).map(arg => /[\s"']/.test(arg) ? JSON.stringify(arg) : arg);
+  return ['demo-cli', ...args].join(' ');
+}
+
+function osUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch (error) {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
+
+// Soft deletes are updates that set `deletedAt`, see trash.ts
+export function changeKind(change: Pick<JournalChange, 'before' | 'after'>): ChangeKind {
+  if (change.before === undefined) return 'created';
+  if (change.after === undefined) return 'removed';
+  if (change.after.deletedAt && !change.before.deletedAt) return 'trashed';
+  if (!change.after.deletedAt && change.before.deletedAt) return 'restored';
+  return 'updated';
+}
+
+function diffFields(before: any, after: any): Record<string, FieldChange> {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: Record<string, FieldChange> = {};
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
+
+/**
+ * Append one audit entry per change. Appends of a few lines are atomic,
+ * so parallel runs need no lock.
+ */
+export async function appendAudit(changes: JournalChange[], command = commandLine()): Promise<void> {
+  if (changes.length === 0) return;
+
+  const timestamp = new Date().toISOString();
+  const user = osUser();
+  const actor = getCurrentUser()?.id;
+  const lines = changes.map(change => {
+    const entry: AuditEntry = {
+      timestamp,
+      user,
+      ...(actor ? { actor } : {}),
+      command,
+      entity: `${ENTITY_TYPES[change.target.collection] || change.target.collection}:${change.key}`,
+      action: changeKind(change),
+      changes: diffFields(change.before, change.after)
+    };
+    return JSON.stringify(entry);
+  });
+
+  await fs.mkdir(path.dirname(AUDIT_FILE), { recursive: true });
+  await fs.appendFile(AUDIT_FILE, lines.join('\n') + '\n');
+}
+
+/**
+ * Every audit entry, oldest first.
+ */
+export async function readAudit(): Promise<AuditEntry[]> {
+  let data: string;
+  try {
+    data = await fs.readFile(AUDIT_FILE, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return data.split('\n').filter(Boolean).map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      throw new StorageError(`${AUDIT_FILE} is corrupt at line ${index + 1} (${error.message}). Fix the line; the log was left untouched.`);
+    }
+  });
+}
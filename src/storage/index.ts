@@ -0,0 +1,112 @@
+import path from 'path';
+import { getConfig } from '../utils/config';
+import { JsonFileRepository, JsonObjectRepository } from './json';
+import { SqliteRepository } from './sqlite';
+import { AUDIT_FILE } from './audit';
+import { JOURNAL_FILE, JournaledRepository, applyOperation } from './journal';
+import { SoftDeleteRepository } from './trash';
+import type { Repository, RepositoryOptions, StorageBackend } from './repository';
+import type { JournalEntry, JournalTarget } from './journal';
+import type { Trash } from './trash';
+
+export type { Repository, RepositoryOptions, StorageBackend } from './repository';
+export { StorageError } from './repository';
+export { JsonObjectRepository } from './json';
+export { sqliteRequirement, supportsSqlite } from './sqlite';
+export type { ConfigEntry } from './json';
+export { listOperations, startOperation } from './journal';
+export type { JournalChange, JournalEntry, JournalTarget } from './journal';
+export { changeKind, readAudit } from './audit';
+export type { AuditEntry, ChangeKind, FieldChange } from './audit';
+export type { Tombstoned, Trash } from './trash';
+
+const DATA_DIR = path.resolve('./demo-files');
+const SQLITE_FILE = path.join(DATA_DIR, 'demo-cli.db');
+
+// Keys of the collections not keyed by `id`, computed from stored records
+const STORED_KEYS: Record<string, (record: any) => string> = {
+  profiles: record => record.name.toLowerCase(),
+  timers: record => record.taskId,
+  queries: record => record.name
+};
+
+// Collections whose deletes are soft (a `deletedAt` stamp), see getTrash()
+const SOFT_DELETE_COLLECTIONS = ['tasks', 'users'];
+
+// Every collection, each stored as <collection>.json with the json backend
+const COLLECTIONS = ['tasks', 'users', 'profiles', 'timers', 'queries'];
+
+const repositories = new Map<string, Repository<any>>();
+
+// A collection's SQLite table starts out with the records in its JSON
+// file, so switching backends keeps existing data (the file is left as is)
+function openBackend<T>(backend: StorageBackend, collection: string, options?: RepositoryOptions<T>): Repository<T> {
+  const json = new JsonFileRepository<T>(path.join(DATA_DIR, `${collection}.json`), options);
+  return backend === 'sqlite'
+    ? new SqliteRepository<T>(SQLITE_FILE, collection, options, () => json.list())
+    : json;
+}
+
+// Unjournaled access to the stored records a journal change refers to
+function openJournalTarget(target: JournalTarget): Repository<any> {
+  if (target.file) return new JsonObjectRepository(target.file);
+  return openBackend(target.backend, target.collection, { key: STORED_KEYS[target.collection] });
+}
+
+/**
+ * Repository for a named collection (users, tasks, profiles, ...) on the
+ * backend selected by the `storage` config key.
+ */
+export function getRepository<T>(collection: string, options?: RepositoryOptions<T>): Repository<T> {
+  const backend = getConfig().storage;
+  const cacheKey = `${backend}:${collection}`;
+
+  if (!repositories.has(cacheKey)) {
+    const journaled = new JournaledRepository<T>(
+      openBackend<T>(backend, collection, options),
+      { collection, backend },
+      options
+    );
+    const repository = SOFT_DELETE_COLLECTIONS.includes(collection)
+      ? new SoftDeleteRepository<any>(journaled, options)
+      : journaled;
+    repositories.set(cacheKey, repository);
+  }
+
+  return repositories.get(cacheKey) as Repository<T>;
+}
+
+/**
+ * Deleted records of a soft-delete collection (tasks, users).
+ */
+export function getTrash<T>(collection: string): Trash<T> {
+  const repository = getRepository<T>(collection);
+  if (!(repository instanceof SoftDeleteRepository)) {
+    throw new Error(`The ${collection} collection has no trash`);
+  }
+  return repository.trash;
+}
+
+/**
+ * Whether `filePath` is one of the CLI's own data files: collection stores,
+ * the SQLite database, the journal, the audit log, the project config and
+ * their lock files. The journal and audit log keep full copies of records,
+ * deleted ones included, so these are never treated as user files.
+ */
+export function isDataFile(filePath: string): boolean {
+  const resolved = path.resolve(filePath);
+  if (path.dirname(resolved) !== DATA_DIR) return false;
+
+  const name = path.basename(resolved).replace(/\.lock$/, '');
+  return [JOURNAL_FILE, AUDIT_FILE, path.join(DATA_DIR, 'config.json')].includes(path.join(DATA_DIR, name)) ||
+    name.startsWith(path.basename(SQLITE_FILE)) ||
+    COLLECTIONS.some(collection => name === `${collection}.json`);
+}
+
+export async function undoOperation(entry: JournalEntry, force = false): Promise<void> {
+  await applyOperation(entry, 'undo', openJournalTarget, force);
+}
+
+export async function redoOperation(entry: JournalEntry, force = false): Promise<void> {
+  await applyOperation(entry, 'redo', openJournalTarget, force);
+}
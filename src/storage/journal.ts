@@ -0,0 +1,256 @@
+import path from 'path';
+import { appendAudit, commandLine } from './audit';
+import { JsonFileRepository } from './json';
+import { resolveOptions } from './repository';
+import { getCommandPermission } from '../utils/permissions';
+import type { Repository, RepositoryOptions, StorageBackend } from './repository';
+import type { Permission } from '../utils/permissions';
+
+/**
+ * Operation journal behind `demo-cli undo`, `redo` and `history`. Every
+ * write through a journaled repository records the stored form of each
+ * changed record before and after, grouped into one entry per CLI run
+ * (or per action in `task tui`, see startOperation), and passes the same
+ * changes on to the audit log. The journal covers
+ * both backends and config files, so it is always JSON.
+ */
+
+// Where a change was made: a collection on a storage backend, or a config file
+export interface JournalTarget {
+  collection: string;
+  backend?: StorageBackend;
+  file?: string;
+}
+
+export interface JournalChange {
+  target: JournalTarget;
+  key: string;
+  before?: any; // absent when the record was created
+  after?: any;  // absent when the record was removed
+}
+
+export interface JournalEntry {
+  id: string;
+  command: string;
+  timestamp: string;
+  changes: JournalChange[];
+  permission?: Permission; // what the command needed; undo and redo need it too
+  undone?: boolean;
+}
+
+export type JournalDirection = 'undo' | 'redo';
+
+export const JOURNAL_FILE = path.resolve('./demo-files/journal.json');
+const MAX_ENTRIES = 100;
+
+function newOperationId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+}
+
+// One entry per process unless startOperation() begins another, so every
+// write of a command lands in the same entry
+let operation = { id: newOperationId(), action: undefined as string | undefined };
+
+/**
+ * Begin a new journal entry for the writes that follow, so a long-running
+ * command such as `task tui` records one undo step per action. `action`
+ * is shown after the command line, e.g. "demo-cli task tui (complete abc123)".
+ */
+export function startOperation(action?: string): void {
+  operation = { id: newOperationId(), action };
+}
+
+function journalRepository(): Repository<JournalEntry> {
+  return new JsonFileRepository<JournalEntry>(JOURNAL_FILE);
+}
+
+function sameRecord(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameTarget(a: JournalTarget, b: JournalTarget): boolean {
+  return a.collection === b.collection && a.backend === b.backend && a.file === b.file;
+}
+
+async function recordChanges(changes: JournalChange[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  const journal = journalRepository();
+  await journal.withLock(async () => {
+    const entries = await journal.list();
+    const current = entries.find(entry => entry.id === operation.id);
+    if (current) {
+      await journal.save({ ...current, changes: [...current.changes, ...changes] });
+      return;
+    }
+
+    // A new operation can't follow undone ones, so they can no longer be redone
+    const kept = entries.filter(entry => !entry.undone);
+    const dropped = [
+      ...entries.filter(entry => entry.undone),
+      ...kept.slice(0, Math.max(0, kept.length + 1 - MAX_ENTRIES))
+    ];
+    if (dropped.length > 0) {
+      await journal.removeMany(dropped.map(entry => entry.id));
+    }
+
+    await journal.save({
+      id: operation.id,
+      command: operation.action ? `${commandLine()} (${operation.action})` : commandLine(),
+      timestamp: new Date().toISOString(),
+      changes,
+      ...(getCommandPermission() ? { permission: getCommandPermission() } : {})
+    });
+  });
+}
+
+/**
+ * Repository decorator that journals every write to `inner`. Each write
+ * reads the before-images of the records it touches, writes and journals
+ * under the collection's lock, so no other writer can land in between.
+ */
+export class JournaledRepository<T> implements Repository<T> {
+  private readonly options: Required<RepositoryOptions<T>>;
+
+  constructor(
+    private readonly inner: Repository<T>,
+    private readonly target: JournalTarget,
+    options?: RepositoryOptions<T>
+  ) {
+    this.options = resolveOptions(options);
+  }
+
+  // The record as written to disk, which is what the journal keeps
+  private stored(item: T): any {
+    return JSON.parse(JSON.stringify(this.options.serialize(item)));
+  }
+
+  // Stored form of the given records, skipping ones that don't exist
+  private async snapshot(keys: string[]): Promise<Map<string, any>> {
+    const before = new Map<string, any>();
+    for (const key of new Set(keys)) {
+      const item = await this.inner.get(key);
+      if (item !== undefined) before.set(key, this.stored(item));
+    }
+    return before;
+  }
+
+  private async record(before: Map<string, any>, after: Map<string, any>): Promise<void> {
+    const changes: JournalChange[] = [];
+    after.forEach((record, key) => {
+      if (!sameRecord(before.get(key), record)) {
+        changes.push({ target: this.target, key, before: before.get(key), after: record });
+      }
+    });
+    await recordChanges(changes);
+    await appendAudit(changes);
+  }
+
+  list(): Promise<T[]> {
+    return this.inner.list();
+  }
+
+  get(key: string): Promise<T | undefined> {
+    return this.inner.get(key);
+  }
+
+  async save(item: T): Promise<void> {
+    await this.saveMany([item]);
+  }
+
+  async saveMany(items: T[]): Promise<void> {
+    await this.inner.withLock(async () => {
+      const before = await this.snapshot(items.map(this.options.key));
+      await this.inner.saveMany(items);
+      const after = new Map(items.map(item => [this.options.key(item), this.stored(item)]));
+      await this.record(before, after);
+    });
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return (await this.removeMany([key])) > 0;
+  }
+
+  async removeMany(keys: string[]): Promise<number> {
+    return this.inner.withLock(async () => {
+      const before = await this.snapshot(keys);
+      const removed = await this.inner.removeMany(keys);
+      await this.record(before, new Map([...before.keys()].map(key => [key, undefined])));
+      return removed;
+    });
+  }
+
+  // Replacing touches every record, so this one reads the whole collection
+  async replaceAll(items: T[]): Promise<void> {
+    await this.inner.withLock(async () => {
+      const existing = await this.inner.list();
+      const before = new Map(existing.map(item => [this.options.key(item), this.stored(item)]));
+      await this.inner.replaceAll(items);
+      const after = new Map<string, any>([...before.keys()].map(key => [key, undefined]));
+      items.forEach(item => after.set(this.options.key(item), this.stored(item)));
+      await this.record(before, after);
+    });
+  }
+
+  withLock<R>(work: () => Promise<R>): Promise<R> {
+    return this.inner.withLock(work);
+  }
+}
+
+/**
+ * Journal entries, oldest first.
+ */
+export async function listOperations(): Promise<JournalEntry[]> {
+  return journalRepository().list();
+}
+
+/**
+ * Reverse (undo) or re-apply (redo) one journal entry. `open` returns an
+ * unjournaled repository over stored records for a target. Unless `force`
+ * is set, refuses when any record has changed since the entry was made.
+ */
+export async function applyOperation(
+  entry: JournalEntry,
+  direction: JournalDirection,
+  open: (target: JournalTarget) => Repository<any>,
+  force = false
+): Promise<void> {
+  // Net effect per record: first "before" and last "after"
+  const net: JournalChange[] = [];
+  entry.changes.forEach(change => {
+    const existing = net.find(c => c.key === change.key && sameTarget(c.target, change.target));
+    if (existing) existing.after = change.after;
+    else net.push({ ...change });
+  });
+
+  const expected = (change: JournalChange) => direction === 'undo' ? change.after : change.before;
+  const wanted = (change: JournalChange) => direction === 'undo' ? change.before : change.after;
+
+  if (!force) {
+    const conflicts: string[] = [];
+    for (const change of net) {
+      const current = await open(change.target).get(change.key);
+      if (!sameRecord(current, expected(change))) {
+        conflicts.push(`${change.target.collection} "${change.key}"`);
+      }
+    }
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Changed since "${entry.command}": ${conflicts.join(', ')}. Use --force to ${direction} anyway.`
+      );
+    }
+  }
+
+  const targets = net.map(change => change.target).filter((target, i, all) => all.findIndex(t => sameTarget(t, target)) === i);
+  for (const target of targets) {
+    const changes = net.filter(change => sameTarget(change.target, target));
+    const repository = open(target);
+    const saves = changes.filter(change => wanted(change) !== undefined).map(wanted);
+    const removals = changes.filter(change => wanted(change) === undefined).map(change => change.key);
+    if (saves.length > 0) await repository.saveMany(saves);
+    if (removals.length > 0) await repository.removeMany(removals);
+  }
+
+  await journalRepository().save({ ...entry, undone: direction === 'undo' });
+  await appendAudit(net.map(change => ({ ...change, before: expected(change), after: wanted(change) })));
+}
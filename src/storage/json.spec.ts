@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsonFileRepository } from './json';
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+let dir: string;
+let file: string;
+
+function repository(): JsonFileRepository<Item> {
+  return new JsonFileRepository<Item>(file);
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'demo-cli-json-'));
+  file = path.join(dir, 'items.json');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('JsonFileRepository writes', () => {
+  it('loses no updates when writers race on the same file', async () => {
+    const ids = Array.from({ length: 20 }, (_, index) => `i${index}`);
+    await Promise.all(ids.map((id, index) => repository().save({ id, value: index })));
+    assert.deepEqual((await repository().list()).map(item => item.id).sort(), [...ids].sort());
+  });
+
+  it('leaves no lock or temp files behind', async () => {
+    await repository().saveMany([{ id: 'a', value: 1 }, { id: 'b', value: 2 }]);
+    await repository().remove('a');
+    assert.deepEqual(await fs.readdir(dir), ['items.json']);
+  });
+
+  it('lets work inside withLock write the same file', async () => {
+    const repo = repository();
+    await repo.withLock(async () => {
+      await repo.save({ id: 'a', value: 1 });
+      await repo.save({ id: 'a', value: 2 });
+    });
+    assert.deepEqual(await repo.list(), [{ id: 'a', value: 2 }]);
+  });
+
+  it('makes other writers wait for withLock', async () => {
+    const repo = repository();
+    const order: string[] = [];
+    let release: () => void;
+    const held = repo.withLock(async () => {
+      order.push('locked');
+      await new Promise<void>(resolve => { release = resolve; });
+      order.push('released');
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const write = repository().save({ id: 'a', value: 1 }).then(() => order.push('written'));
+    await new Promise(resolve => setTimeout(resolve, 120));
+    release();
+    await Promise.all([held, write]);
+    assert.deepEqual(order, ['locked', 'released', 'written']);
+  });
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    const lockPath = `${file}.lock`;
+    await fs.writeFile(lockPath, '99999');
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, past, past);
+    await repository().save({ id: 'a', value: 1 });
+    assert.deepEqual(await fs.readdir(dir), ['items.json']);
+  });
+});
+
+describe('JsonFileRepository reads', () => {
+  it('treats a missing file as empty', async () => {
+    assert.deepEqual(await repository().list(), []);
+  });
+
+  it('refuses to overwrite a corrupt file', async () => {
+    await fs.writeFile(file, '[{"id": "a",');
+    await assert.rejects(repository().save({ id: 'b', value: 1 }), { name: 'StorageError', message: /is corrupt/ });
+    assert.equal(await fs.readFile(file, 'utf8'), '[{"id": "a",');
+  });
+
+  it('rejects a file that does not hold an array', async () => {
+    await fs.writeFile(file, '{"id": "a"}');
+    await assert.rejects(repository().list(), /unexpected format/);
+  });
+});
@@ -0,0 +1,207 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { resolveOptions, StorageError } from './repository';
+import type { Repository, RepositoryOptions } from './repository';
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 30000;
+
+// Lock files held by the current async call chain, so nested writes reuse them
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+async function acquireLock(lockPath: string): Promise<void> {
+  const started = Date.now();
+  
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return;
+    } catch (error) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+    
+    const stats = await fs.stat(lockPath).catch(() => null);
+    if (stats && Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      const holder = await fs.readFile(lockPath, 'utf8').catch(() => 'unknown');
+      throw new StorageError(
+        `Timed out waiting for lock ${lockPath} (held by pid ${holder}). ` +
+        'If no other demo-cli command is running, delete the lock file.'
+      );
+    }
+    
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Run `work` while holding an advisory lock file next to `filePath`, so
+ * concurrent read-modify-write cycles from parallel runs do not lose updates.
+ * The lock is re-entrant within one call chain.
+ */
+async function withFileLock<R>(filePath: string, work: () => Promise<R>): Promise<R> {
+  const lockPath = `${filePath}.lock`;
+  const held = heldLocks.getStore();
+  if (held?.has(lockPath)) return work();
+  
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await acquireLock(lockPath);
+  try {
+    return await heldLocks.run(new Set([...(held || []), lockPath]), work);
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+// Write to a temp file and rename it over the target, so a crash mid-write
+// never leaves a truncated file behind
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * JSON-file backend: the whole collection lives in one array file, so every
+ * write rewrites the file. Writes are atomic and serialized by a lock file.
+ */
+export class JsonFileRepository<T> implements Repository<T> {
+  private readonly options: Required<RepositoryOptions<T>>;
+
+  constructor(protected readonly filePath: string, options?: RepositoryOptions<T>) {
+    this.options = resolveOptions(options);
+  }
+
+  // File contents <-> stored records
+  protected fromFile(data: any): any[] {
+    return data;
+  }
+
+  protected toFile(records: any[]): any {
+    return records;
+  }
+
+  private async readRecords(): Promise<any[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    
+    let parsed: any;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      throw new StorageError(
+        `${this.filePath} is corrupt (${error.message}). ` +
+        'Fix or restore the file; it was left untouched.'
+      );
+    }
+    
+    const records = this.fromFile(parsed);
+    if (!Array.isArray(records)) {
+      throw new StorageError(`${this.filePath} has an unexpected format; it was left untouched.`);
+    }
+    return records;
+  }
+
+  private async writeRecords(records: any[]): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(this.toFile(records), null, 2));
+  }
+
+  private async update(change: (items: T[]) => T[]): Promise<void> {
+    await withFileLock(this.filePath, async () => {
+      const items = await this.list();
+      await this.writeRecords(change(items).map(this.options.serialize));
+    });
+  }
+
+  async list(): Promise<T[]> {
+    return (await this.readRecords()).map(this.options.deserialize);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return (await this.list()).find(item => this.options.key(item) === key);
+  }
+
+  async save(item: T): Promise<void> {
+    await this.saveMany([item]);
+  }
+
+  async saveMany(items: T[]): Promise<void> {
+    await this.update(existing => {
+      const result = [...existing];
+      items.forEach(item => {
+        const index = result.findIndex(e => this.options.key(e) === this.options.key(item));
+        if (index === -1) result.push(item);
+        else result[index] = item;
+      });
+      return result;
+    });
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return (await this.removeMany([key])) > 0;
+  }
+
+  async removeMany(keys: string[]): Promise<number> {
+    let removed = 0;
+    await this.update(existing => {
+      const remaining = existing.filter(item => !keys.includes(this.options.key(item)));
+      removed = existing.length - remaining.length;
+      return remaining;
+    });
+    return removed;
+  }
+
+  async replaceAll(items: T[]): Promise<void> {
+    await withFileLock(this.filePath, () => this.writeRecords(items.map(this.options.serialize)));
+  }
+
+  withLock<R>(work: () => Promise<R>): Promise<R> {
+    return withFileLock(this.filePath, work);
+  }
+}
+
+export interface ConfigEntry {
+  key: string;
+  value: any;
+}
+
+/**
+ * JSON object file ({ "key": value, ... }) exposed as key/value entries.
+ * Config layers always use this backend: they have to be read before the
+ * configured storage backend is known.
+ */
+export class JsonObjectRepository extends JsonFileRepository<ConfigEntry> {
+  constructor(filePath: string) {
+    super(filePath, { key: entry => entry.key });
+  }
+
+  protected fromFile(data: any): ConfigEntry[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new StorageError(`${this.filePath} must contain a JSON object.`);
+    }
+    return Object.entries(data).map(([key, value]) => ({ key, value }));
+  }
+
+  protected toFile(records: ConfigEntry[]): Record<string, any> {
+    return Object.fromEntries(records.map(({ key, value }) => [key, value]));
+  }
+}
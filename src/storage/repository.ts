@@ -0,0 +1,42 @@
+/**
+ * Typed collection store shared by every command module. Records are
+ * addressed by a string key (the `id` field unless a key function is given).
+ */
+export interface Repository<T> {
+  list(): Promise<T[]>;
+  get(key: string): Promise<T | undefined>;
+  save(item: T): Promise<void>;
+  saveMany(items: T[]): Promise<void>;
+  remove(key: string): Promise<boolean>;
+  removeMany(keys: string[]): Promise<number>;
+  replaceAll(items: T[]): Promise<void>;
+  // Run `work` holding the collection's write lock; writes made inside it
+  // (through any repository on the same store) join the lock
+  withLock<R>(work: () => Promise<R>): Promise<R>;
+}
+
+export interface RepositoryOptions<T> {
+  // Record key, defaults to the `id` field
+  key?: (item: T) => string;
+  // Convert to and from the stored JSON shape (e.g. Date <-> ISO string)
+  serialize?: (item: T) => any;
+  deserialize?: (record: any) => T;
+}
+
+export type StorageBackend = 'json' | 'sqlite';
+
+// Raised for unreadable or locked data files instead of returning empty data
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export function resolveOptions<T>(options: RepositoryOptions<T> = {}): Required<RepositoryOptions<T>> {
+  return {
+    key: options.key || ((item: any) => item.id),
+    serialize: options.serialize || ((item: T) => item),
+    deserialize: options.deserialize || ((record: any) => record as T)
+  };
+}
@@ -0,0 +1,174 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { resolveOptions } from './repository';
+import type { Repository, RepositoryOptions } from './repository';
+
+type Database = import('node:sqlite').DatabaseSync;
+
+// node:sqlite is unflagged from this release on
+const MIN_NODE_VERSION = [22, 13];
+
+// One connection per database file, shared by every collection
+const connections = new Map<string, Promise<Database>>();
+
+// Database files with a transaction open in the current async call chain
+const openTransactions = new AsyncLocalStorage<Set<string>>();
+
+export function supportsSqlite(version = process.versions.node): boolean {
+  const [major, minor] = version.split('.').map(Number);
+  return major > MIN_NODE_VERSION[0] || (major === MIN_NODE_VERSION[0] && minor >= MIN_NODE_VERSION[1]);
+}
+
+export function sqliteRequirement(): string {
+  return `SQLite storage requires Node.js ${MIN_NODE_VERSION.join('.')} or later (running ${process.version})`;
+}
+
+async function openDatabase(filePath: string): Promise<Database> {
+  if (!connections.has(filePath)) {
+    connections.set(filePath, (async () => {
+      let sqlite: typeof import('node:sqlite');
+      try {
+        sqlite = await import('node:sqlite');
+      } catch (error) {
+        throw new Error(`${sqliteRequirement()}. Use "config set storage json" instead.`);
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const db = new sqlite.DatabaseSync(filePath);
+      // Parallel CLI runs wait for each other instead of failing with SQLITE_BUSY
+      db.exec('PRAGMA busy_timeout = 5000');
+      return db;
+    })());
+  }
+  return connections.get(filePath)!;
+}
+
+/**
+ * SQLite backend: one table per collection with a JSON `data` column, so
+ * single-record writes only touch that row. `seed` gives the records a
+ * table starts with when it is created, e.g. the collection's JSON file.
+ */
+export class SqliteRepository<T> implements Repository<T> {
+  private readonly options: Required<RepositoryOptions<T>>;
+  private ready?: Promise<Database>;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly table: string,
+    options?: RepositoryOptions<T>,
+    private readonly seed?: () => Promise<T[]>
+  ) {
+    if (!/^[a-z_][a-z0-9_]*$/i.test(table)) {
+      throw new Error(`Invalid collection name: ${table}`);
+    }
+    this.options = resolveOptions(options);
+  }
+
+  private db(): Promise<Database> {
+    if (!this.ready) {
+      this.ready = openDatabase(this.filePath).then(async db => {
+        const items = !this.tableExists(db) && this.seed ? await this.seed() : [];
+        // Checked again in the transaction: another run may have created it meanwhile
+        this.transaction(db, () => {
+          if (this.tableExists(db)) return;
+          db.exec(`CREATE TABLE "${this.table}" (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+          this.upsert(db, items);
+        });
+        return db;
+      });
+    }
+    return this.ready;
+  }
+
+  private tableExists(db: Database): boolean {
+    return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(this.table) !== undefined;
+  }
+
+  // Statements inside withLock() run in its transaction
+  private transaction(db: Database, work: () => void): void {
+    if (openTransactions.getStore()?.has(this.filePath)) {
+      work();
+      return;
+    }
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      work();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private upsert(db: Database, items: T[]): void {
+    const statement = db.prepare(
+      `INSERT INTO "${this.table}" (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+    );
+    items.forEach(item => {
+      statement.run(this.options.key(item), JSON.stringify(this.options.serialize(item)));
+    });
+  }
+
+  async list(): Promise<T[]> {
+    const db = await this.db();
+    const rows = db.prepare(`SELECT data FROM "${this.table}" ORDER BY rowid`).all() as Array<{ data: string }>;
+    return rows.map(row => this.options.deserialize(JSON.parse(row.data)));
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const db = await this.db();
+    const row = db.prepare(`SELECT data FROM "${this.table}" WHERE id = ?`).get(key) as { data: string } | undefined;
+    return row ? this.options.deserialize(JSON.parse(row.data)) : undefined;
+  }
+
+  async save(item: T): Promise<void> {
+    await this.saveMany([item]);
+  }
+
+  async saveMany(items: T[]): Promise<void> {
+    const db = await this.db();
+    this.transaction(db, () => this.upsert(db, items));
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return (await this.removeMany([key])) > 0;
+  }
+
+  async removeMany(keys: string[]): Promise<number> {
+    const db = await this.db();
+    const statement = db.prepare(`DELETE FROM "${this.table}" WHERE id = ?`);
+    let removed = 0;
+    this.transaction(db, () => {
+      keys.forEach(key => {
+        removed += Number(statement.run(key).changes);
+      });
+    });
+    return removed;
+  }
+
+  async replaceAll(items: T[]): Promise<void> {
+    const db = await this.db();
+    this.transaction(db, () => {
+      db.exec(`DELETE FROM "${this.table}"`);
+      this.upsert(db, items);
+    });
+  }
+
+  // BEGIN IMMEDIATE takes the write lock up front, so reads inside `work`
+  // can't go stale before its writes
+  async withLock<R>(work: () => Promise<R>): Promise<R> {
+    const held = openTransactions.getStore();
+    if (held?.has(this.filePath)) return work();
+
+    const db = await this.db();
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = await openTransactions.run(new Set([...(held || []), this.filePath]), work);
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
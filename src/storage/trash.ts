@@ -0,0 +1,94 @@
+import { resolveOptions } from './repository';
+import type { Repository, RepositoryOptions } from './repository';
+
+/**
+ * Soft delete for collections whose records carry a `deletedAt` tombstone.
+ * Removing a record stamps it instead, and every read skips stamped
+ * records, so existing commands see deleted records as gone while the
+ * trash commands can still restore them.
+ */
+
+export interface Tombstoned {
+  deletedAt?: string;
+}
+
+// Access to the deleted records of a collection
+export interface Trash<T> {
+  list(): Promise<T[]>;
+  restore(keys: string[]): Promise<T[]>;
+  purge(keys: string[]): Promise<number>;
+}
+
+export class SoftDeleteRepository<T extends Tombstoned> implements Repository<T> {
+  private readonly options: Required<RepositoryOptions<T>>;
+
+  constructor(private readonly inner: Repository<T>, options?: RepositoryOptions<T>) {
+    this.options = resolveOptions(options);
+  }
+
+  async list(): Promise<T[]> {
+    return (await this.inner.list()).filter(item => !item.deletedAt);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const item = await this.inner.get(key);
+    return item && !item.deletedAt ? item : undefined;
+  }
+
+  async save(item: T): Promise<void> {
+    await this.inner.save(item);
+  }
+
+  async saveMany(items: T[]): Promise<void> {
+    await this.inner.saveMany(items);
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return (await this.removeMany([key])) > 0;
+  }
+
+  async removeMany(keys: string[]): Promise<number> {
+    const deletedAt = new Date().toISOString();
+    return this.inner.withLock(async () => {
+      const items: T[] = [];
+      for (const key of new Set(keys)) {
+        const item = await this.get(key);
+        if (item) items.push(item);
+      }
+      if (items.length > 0) {
+        await this.inner.saveMany(items.map(item => ({ ...item, deletedAt })));
+      }
+      return items.length;
+    });
+  }
+
+  // Records left out of `items` go to the trash rather than disappearing
+  async replaceAll(items: T[]): Promise<void> {
+    await this.inner.withLock(async () => {
+      const keep = new Set(items.map(item => this.options.key(item)));
+      const dropped = (await this.list()).map(item => this.options.key(item)).filter(key => !keep.has(key));
+      if (items.length > 0) await this.inner.saveMany(items);
+      if (dropped.length > 0) await this.removeMany(dropped);
+    });
+  }
+
+  withLock<R>(work: () => Promise<R>): Promise<R> {
+    return this.inner.withLock(work);
+  }
+
+  readonly trash: Trash<T> = {
+    list: async () => (await this.inner.list()).filter(item => item.deletedAt),
+
+    restore: (keys) => this.inner.withLock(async () => {
+      const items = (await this.trash.list()).filter(item => keys.includes(this.options.key(item)));
+      const restored = items.map(({ deletedAt, ...item }) => item as T);
+      if (restored.length > 0) await this.inner.saveMany(restored);
+      return restored;
+    }),
+
+    purge: (keys) => this.inner.withLock(async () => {
+      const deleted = new Set((await this.trash.list()).map(item => this.options.key(item)));
+      return this.inner.removeMany(keys.filter(key => deleted.has(key)));
+    })
+  };
+}
@@ -5,8 +5,10 @@ export interface User {
   role: 'admin' | 'user' | 'moderator' | 'guest';
   age?: number;
   phone?: string;
+  profile?: string; // ProfileData key (lower-cased name), set by user link-profile
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string; // set while the user is in the trash
 }
 
 export interface Task {
@@ -17,9 +19,43 @@ export interface Task {
   status: 'pending' | 'in-progress' | 'completed' | 'cancelled';
   due?: string;
   tags: string[];
+  assignee?: string; // User.id
+  dependsOn?: string[]; // Task.id prerequisites
+  parentId?: string; // Task.id of the parent task
+  checklist?: ChecklistItem[];
+  repeat?: string; // RRULE, e.g. FREQ=WEEKLY;BYDAY=MO
+  seriesId?: string; // Task.id of the first occurrence
+  previousId?: string; // Task.id of the previous occurrence
+  occurrence?: number; // 1-based position in the series
+  anchorDay?: number; // day of month a monthly or yearly series started on
+  timeEntries?: TimeEntry[];
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
+  deletedAt?: string; // set while the task is in the trash
+}
+
+export interface ChecklistItem {
+  text: string;
+  done: boolean;
+}
+
+export interface TimeEntry {
+  start: string;
+  end?: string; // only set for timer entries
+  minutes: number;
+  note?: string;
+}
+
+export interface ActiveTimer {
+  taskId: string;
+  startedAt: string;
+}
+
+export interface SavedQuery {
+  name: string;
+  query: string;
+  createdAt: string;
 }
 
 export interface Config {
@@ -33,6 +69,17 @@ export interface Config {
   timeout: number;
   language: 'en' | 'es' | 'fr' | 'de' | 'it';
   debug: boolean;
+  storage: 'json' | 'sqlite';
+  defaultRegion: string; // ISO 3166 code for phone numbers without a country code
+  defaultRole: User['role']; // role for commands run without --as or DEMO_CLI_USER
+}
+
+export type ConfigSource = 'default' | 'user' | 'project' | 'file' | 'env' | 'flag';
+
+export interface ResolvedConfig {
+  config: Config;
+  sources: Record<keyof Config, ConfigSource>;
+  files: Partial<Record<ConfigSource, string>>;
 }
 
 export interface SystemInfo {
@@ -80,6 +127,7 @@ export interface CommandOptions {
   debug?: boolean;
   config?: string;
   color?: boolean;
+  as?: string;
 }
 
 export interface FileOptions {
@@ -100,13 +148,21 @@ export interface UserOptions {
   role?: User['role'];
   age?: number;
   phone?: string;
-  format?: 'table' | 'json' | 'simple';
+  format?: 'table' | 'json' | 'simple' | 'csv';
   sort?: 'name' | 'email' | 'role' | 'createdAt';
   limit?: number;
   name?: string;
   email?: string;
   caseInsensitive?: boolean;
+  exact?: boolean;
   force?: boolean;
+  reassign?: string;
+  unassign?: boolean;
+  upsert?: boolean;
+  take?: string;
+  prefer?: 'user' | 'profile';
+  dryRun?: boolean;
+  yes?: boolean;
 }
 
 export interface TaskOptions {
@@ -117,13 +173,38 @@ export interface TaskOptions {
   interactive?: boolean;
   status?: Task['status'];
   tag?: string;
-  format?: 'table' | 'json' | 'simple';
+  assignee?: string;
+  view?: 'blocked' | 'next';
+  on?: string;
+  remove?: string;
+  parent?: string;
+  item?: string[];
+  uncheck?: boolean;
+  repeat?: string;
+  note?: string;
+  date?: string;
+  from?: string;
+  to?: string;
+  by?: 'task' | 'tag' | 'assignee';
+  query?: string;
+  format?: 'table' | 'json' | 'simple' | 'csv' | 'md' | 'todotxt' | 'ics';
   sort?: 'title' | 'priority' | 'due' | 'created';
   reverse?: boolean;
   limit?: number;
   text?: string;
   caseInsensitive?: boolean;
+  exact?: boolean;
   force?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+  setStatus?: Task['status'];
+  setPriority?: Task['priority'];
+  setDue?: string;
+  add?: string;
+  output?: string;
+  icsType?: 'vtodo' | 'vevent';
+  map?: string;
+  allowDuplicates?: boolean;
 }
 
 export interface SystemOptions {
@@ -136,6 +217,7 @@ export interface SystemOptions {
 
 export interface ConfigOptions {
   all?: boolean;
+  origin?: boolean;
   format?: 'json' | 'table' | 'simple';
   force?: boolean;
   key?: string;
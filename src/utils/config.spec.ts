@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_CONFIG,
+  getWritableConfigPath,
+  initRuntimeConfig,
+  resolveConfig,
+  validateConfigValue
+} from './config';
+
+const startDir = process.cwd();
+let dir: string;
+
+async function writeJson(filePath: string, data: any): Promise<string> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(data));
+  return filePath;
+}
+
+// A checkout at <dir>/repo with its project file, run from <dir>/repo/src
+// with the user file under <dir>/xdg
+beforeEach(async () => {
+  dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'demo-cli-config-')));
+  await fs.mkdir(path.join(dir, 'repo', 'src'), { recursive: true });
+  process.chdir(path.join(dir, 'repo', 'src'));
+  process.env.XDG_CONFIG_HOME = path.join(dir, 'xdg');
+  Object.keys(process.env).filter(name => name.startsWith('DEMO_CLI_')).forEach(name => delete process.env[name]);
+  await initRuntimeConfig();
+});
+
+afterEach(async () => {
+  process.chdir(startDir);
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('resolveConfig', () => {
+  it('uses the defaults when no layer sets anything', async () => {
+    const { config, sources, files } = await resolveConfig();
+    assert.deepEqual(config, DEFAULT_CONFIG);
+    assert.ok(Object.values(sources).every(source => source === 'default'));
+    assert.deepEqual(files, {});
+  });
+
+  it('applies user, project, --config, environment and flag layers in that order', async () => {
+    const userPath = await writeJson(path.join(dir, 'xdg', 'demo-cli', 'config.json'), { theme: 'dark', maxItems: 10, language: 'fr' });
+    const projectPath = await writeJson(path.join(dir, 'repo', 'demo-files', 'config.json'), { maxItems: 20, dateFormat: 'us', debug: true });
+    const filePath = await writeJson(path.join(dir, 'team.json'), { dateFormat: 'eu', timeout: 100, debug: false });
+    process.env.DEMO_CLI_TIMEOUT = '200';
+    process.env.DEMO_CLI_DEFAULT_PRIORITY = 'high';
+    await initRuntimeConfig(filePath, { defaultPriority: 'low' });
+
+    const { config, sources, files } = await resolveConfig();
+    assert.deepEqual(
+      ['theme', 'language', 'maxItems', 'dateFormat', 'debug', 'timeout', 'defaultPriority', 'autoSave'].map(key => [key, config[key], sources[key]]),
+      [
+        ['theme', 'dark', 'user'],
+        ['language', 'fr', 'user'],
+        ['maxItems', 20, 'project'],
+        ['dateFormat', 'eu', 'file'],
+        ['debug', false, 'file'],
+        ['timeout', 200, 'env'],
+        ['defaultPriority', 'low', 'flag'],
+        ['autoSave', true, 'default']
+      ]
+    );
+    assert.deepEqual(files, { user: userPath, project: projectPath, file: filePath });
+  });
+
+  it('reads a --config file that is also the project file only once, as the file layer', async () => {
+    const projectPath = await writeJson(path.join(dir, 'repo', 'demo-files', 'config.json'), { theme: 'light' });
+    await initRuntimeConfig(projectPath);
+    const { sources, files } = await resolveConfig();
+    assert.equal(sources.theme, 'file');
+    assert.deepEqual(files, { file: projectPath });
+  });
+
+  it('requires the --config file to exist', async () => {
+    await initRuntimeConfig(path.join(dir, 'missing.json')).catch(() => {});
+    await assert.rejects(resolveConfig(), /Config file not found: .*missing\.json/);
+  });
+
+  it('ignores invalid environment values and DEMO_CLI_DEFAULT_ROLE', async (t) => {
+    const warn = t.mock.method(console, 'error', () => {});
+    process.env.DEMO_CLI_MAX_ITEMS = 'lots';
+    process.env.DEMO_CLI_DEFAULT_ROLE = 'guest';
+    const { config, sources } = await resolveConfig();
+    assert.equal(config.maxItems, DEFAULT_CONFIG.maxItems);
+    assert.equal(sources.defaultRole, 'default');
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(warn.mock.calls[0].arguments[0], /Ignoring DEMO_CLI_MAX_ITEMS: Must be a number between 1 and 1000/);
+  });
+});
+
+describe('getWritableConfigPath', () => {
+  it('writes to the --config file, else the nearest project file, else ./demo-files', async () => {
+    assert.equal(await getWritableConfigPath(), path.join(dir, 'repo', 'src', 'demo-files', 'config.json'));
+    const projectPath = await writeJson(path.join(dir, 'repo', 'demo-files', 'config.json'), {});
+    assert.equal(await getWritableConfigPath(), projectPath);
+    await initRuntimeConfig(path.join(dir, 'team.json')).catch(() => {});
+    assert.equal(await getWritableConfigPath(), path.join(dir, 'team.json'));
+  });
+});
+
+describe('validateConfigValue', () => {
+  it('converts strings from the command line and environment', () => {
+    assert.deepEqual(validateConfigValue('maxItems', '50'), { valid: true, value: 50 });
+    assert.deepEqual(validateConfigValue('debug', 'true'), { valid: true, value: true });
+  });
+
+  it('rejects unknown keys and values out of range', () => {
+    assert.deepEqual(validateConfigValue('colour', 'red'), { valid: false, message: 'Unknown configuration key: colour' });
+    assert.deepEqual(validateConfigValue('maxItems', '0'), { valid: false, message: 'Must be a number between 1 and 1000' });
+  });
+});
@@ -0,0 +1,341 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import chalk from 'chalk';
+import gradient from 'gradient-string';
+import { JsonObjectRepository } from '../storage/json';
+import { JournaledRepository } from '../storage/journal';
+import { sqliteRequirement, supportsSqlite } from '../storage/sqlite';
+import { CALLING_CODES, isRegion } from './phone';
+import type { Config, ConfigSource, ResolvedConfig, ValidationResult } from '../types/index';
+
+const CONFIG_FILENAME = 'config.json';
+const PROJECT_CONFIG = path.join('demo-files', CONFIG_FILENAME);
+const ENV_PREFIX = 'DEMO_CLI_';
+
+// Settings DEMO_CLI_* variables can't change: a DEMO_CLI_DEFAULT_ROLE
+// would lift any role restriction set in a config file
+const ENV_EXCLUDED_KEYS = ['defaultRole'];
+
+// Default configuration
+export const DEFAULT_CONFIG: Config = {
+  theme: 'default',
+  colorOutput: true,
+  dateFormat: 'locale',
+  defaultPriority: 'medium',
+  autoSave: true,
+  maxItems: 100,
+  apiUrl: 'https://api.example.com',
+  timeout: 5000,
+  language: 'en',
+  debug: false,
+  storage: 'json',
+  defaultRegion: 'US',
+  defaultRole: 'admin'
+};
+
+// Runtime configuration shared by every command module
+let runtimeConfig: Config = { ...DEFAULT_CONFIG };
+let explicitConfigPath: string | undefined;
+let flagOverrides: Partial<Config> = {};
+
+export function validateConfigValue(key: string, value: any): ValidationResult {
+  const validators = {
+    theme: (val) => ['default', 'dark', 'light', 'rainbow'].includes(val),
+    colorOutput: (val) => typeof val === 'boolean',
+    dateFormat: (val) => ['locale', 'iso', 'us', 'eu'].includes(val),
+    defaultPriority: (val) => ['low', 'medium', 'high', 'urgent'].includes(val),
+    autoSave: (val) => typeof val === 'boolean',
+    maxItems: (val) => Number.isInteger(val) && val > 0 && val <= 1000,
+    apiUrl: (val) => typeof val === 'string' && val.length > 0,
+    timeout: (val) => Number.isInteger(val) && val > 0,
+    language: (val) => ['en', 'es', 'fr', 'de', 'it'].includes(val),
+    debug: (val) => typeof val === 'boolean',
+    storage: (val) => val === 'json' || (val === 'sqlite' && supportsSqlite()),
+    defaultRegion: (val) => val === '' || (typeof val === 'string' && isRegion(val)),
+    defaultRole: (val) => ['admin', 'moderator', 'user', 'guest'].includes(val)
+  };
+  
+  const validator = validators[key];
+  if (!validator) {
+    return { valid: false, message: `Unknown configuration key: ${key}` };
+  }
+  
+  // Try to convert value if it's a string
+  let convertedValue = value;
+  if (typeof value === 'string') {
+    if (value === 'true') convertedValue = true;
+    else if (value === 'false') convertedValue = false;
+    else if (!isNaN(Number(value)) && !isNaN(parseFloat(value))) convertedValue = parseInt(value);
+  }
+  
+  if (validator(convertedValue)) {
+    return { valid: true, value: convertedValue };
+  }
+  
+  const suggestions = {
+    theme: 'Must be one of: default, dark, light, rainbow',
+    colorOutput: 'Must be true or false',
+    dateFormat: 'Must be one of: locale, iso, us, eu',
+    defaultPriority: 'Must be one of: low, medium, high, urgent',
+    autoSave: 'Must be true or false',
+    maxItems: 'Must be a number between 1 and 1000',
+    apiUrl: 'Must be a valid URL string',
+    timeout: 'Must be a positive number',
+    language: 'Must be one of: en, es, fr, de, it',
+    debug: 'Must be true or false',
+    storage: supportsSqlite() ? 'Must be one of: json, sqlite' : `${sqliteRequirement()}. Use json`,
+    defaultRegion: `Must be a region code (${Object.keys(CALLING_CODES).join(', ')}) or "" for none`,
+    defaultRole: 'Must be one of: admin, moderator, user, guest'
+  };
+  
+  return { valid: false, message: suggestions[key] || 'Invalid value' };
+}
+
+// Layer file locations
+export function getUserConfigPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'demo-cli', CONFIG_FILENAME);
+}
+
+async function findProjectConfigPath(startDir = process.cwd()): Promise<string | undefined> {
+  let dir = path.resolve(startDir);
+  
+  while (true) {
+    const candidate = path.join(dir, PROJECT_CONFIG);
+    const exists = await fs.access(candidate).then(() => true).catch(() => false);
+    if (exists) return candidate;
+    
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * File that `config set`, `reset`, `import` and `setup` write to: the
+ * --config file if given, else the nearest project file (or ./demo-files).
+ */
+export async function getWritableConfigPath(): Promise<string> {
+  if (explicitConfigPath) return explicitConfigPath;
+  return (await findProjectConfigPath()) || path.resolve(PROJECT_CONFIG);
+}
+
+async function readConfigFile(filePath: string, required = false): Promise<Partial<Config>> {
+  if (required) {
+    const exists = await fs.access(filePath).then(() => true).catch(() => false);
+    if (!exists) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+  }
+  
+  const entries = await new JsonObjectRepository(filePath).list();
+  return Object.fromEntries(entries.map(({ key, value }) => [key, value]));
+}
+
+function envVarName(key: string): string {
+  return ENV_PREFIX + key.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function readEnvConfig(): Partial<Config> {
+  const config: Partial<Config> = {};
+  
+  Object.keys(DEFAULT_CONFIG).filter(key => !ENV_EXCLUDED_KEYS.includes(key)).forEach(key => {
+    const raw = process.env[envVarName(key)];
+    if (raw === undefined) return;
+    
+    const validation = validateConfigValue(key, raw);
+    if (!validation.valid) {
+      console.error(chalk.yellow(`⚠️  Ignoring ${envVarName(key)}: ${validation.message}`));
+      return;
+    }
+    config[key] = validation.value;
+  });
+  
+  return config;
+}
+
+/**
+ * Resolve configuration layer by layer, lowest precedence first: defaults,
+ * user file, project file, --config file, DEMO_CLI_* variables, flags.
+ */
+export async function resolveConfig(): Promise<ResolvedConfig> {
+  const config = { ...DEFAULT_CONFIG };
+  const sources = {} as Record<keyof Config, ConfigSource>;
+  const files: ResolvedConfig['files'] = {};
+  
+  Object.keys(config).forEach(key => { sources[key] = 'default'; });
+  
+  const apply = (layer: Partial<Config>, source: ConfigSource) => {
+    Object.entries(layer).forEach(([key, value]) => {
+      config[key] = value;
+      sources[key] = source;
+    });
+  };
+  
+  const userPath = getUserConfigPath();
+  const userLayer = await readConfigFile(userPath);
+  if (Object.keys(userLayer).length > 0) files.user = userPath;
+  apply(userLayer, 'user');
+  
+  const projectPath = await findProjectConfigPath();
+  if (projectPath && projectPath !== explicitConfigPath) {
+    files.project = projectPath;
+    apply(await readConfigFile(projectPath), 'project');
+  }
+  
+  if (explicitConfigPath) {
+    files.file = explicitConfigPath;
+    apply(await readConfigFile(explicitConfigPath, true), 'file');
+  }
+  
+  apply(readEnvConfig(), 'env');
+  apply(flagOverrides, 'flag');
+  
+  return { config, sources, files };
+}
+
+export async function loadConfig(): Promise<Config> {
+  return (await resolveConfig()).config;
+}
+
+/**
+ * Read only the writable layer, so saving does not bake in values that
+ * came from other files, the environment or flags.
+ */
+export async function loadWritableConfig(): Promise<Partial<Config>> {
+  return readConfigFile(await getWritableConfigPath());
+}
+
+export async function saveConfig(config: Partial<Config>): Promise<void> {
+  const filePath = await getWritableConfigPath();
+  // Journaled, so `demo-cli undo` can revert config changes too
+  const repository = new JournaledRepository(new JsonObjectRepository(filePath), { collection: 'config', file: filePath }, {
+    key: entry => entry.key
+  });
+  await repository.replaceAll(Object.entries(config).map(([key, value]) => ({ key, value })));
+}
+
+// What --no-color does: chalk reads the flag, ora's symbols, cli-table3
+// and inquirer read the environment when they are loaded
+function disableColor(): void {
+  chalk.level = 0;
+  // Node warns when NO_COLOR and FORCE_COLOR are both set
+  if (!process.env.NO_COLOR) {
+    process.env.FORCE_COLOR = '0';
+  }
+}
+
+// The --config value before commander has parsed argv. -c is also an
+// option of some subcommands, so it only counts before the command name.
+function configPathFromArgv(args: string[]): string | undefined {
+  let beforeCommand = true;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') break;
+    if (arg.startsWith('--config=')) return arg.slice('--config='.length);
+    if (arg === '--config' || (beforeCommand && arg === '-c')) return args[i + 1];
+    if (arg === '--as') i++;
+    else if (!arg.startsWith('-')) beforeCommand = false;
+  }
+  return undefined;
+}
+
+/**
+ * Apply a saved `colorOutput: false` before the command modules are
+ * imported, since some of their dependencies fix their colours on load.
+ * Errors are left for initRuntimeConfig() to report.
+ */
+export async function applyColorOutput(argv = process.argv): Promise<void> {
+  const configPath = configPathFromArgv(argv.slice(2));
+  explicitConfigPath = configPath ? path.resolve(configPath) : undefined;
+  try {
+    if (!(await loadConfig()).colorOutput) {
+      disableColor();
+    }
+  } catch {
+    // reported once the command runs
+  }
+}
+
+/**
+ * Resolve every layer, remember the --config path and flag overrides for
+ * later loads, and make the result available through getConfig().
+ * Called once from the preAction hook.
+ */
+export async function initRuntimeConfig(configPath?: string, overrides: Partial<Config> = {}): Promise<Config> {
+  explicitConfigPath = configPath ? path.resolve(configPath) : undefined;
+  flagOverrides = overrides;
+  runtimeConfig = await loadConfig();
+
+  if (!runtimeConfig.colorOutput) {
+    disableColor();
+  }
+
+  return runtimeConfig;
+}
+
+export function getConfig(): Config {
+  return runtimeConfig;
+}
+
+/**
+ * Cap a list to the configured maxItems, or to an explicit smaller limit.
+ */
+export function applyLimit<T>(items: T[], limit?: number): T[] {
+  const max = limit ? Math.min(limit, runtimeConfig.maxItems) : runtimeConfig.maxItems;
+  return items.slice(0, max);
+}
+
+// Date-only strings (YYYY-MM-DD) are calendar dates, not UTC midnight
+function toDate(value: string | Date): Date {
+  if (value instanceof Date) return value;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  return new Date(value);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Format a timestamp using the configured dateFormat.
+ */
+export function formatDate(value: string | Date, includeTime = true): string {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return String(value);
+
+  const day = pad(date.getDate());
+  const month = pad(date.getMonth() + 1);
+  const year = date.getFullYear();
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+  switch (runtimeConfig.dateFormat) {
+    case 'iso':
+      return includeTime ? `${year}-${month}-${day} ${time}` : `${year}-${month}-${day}`;
+    case 'us':
+      return includeTime ? `${month}/${day}/${year} ${time}` : `${month}/${day}/${year}`;
+    case 'eu':
+      return includeTime ? `${day}/${month}/${year} ${time}` : `${day}/${month}/${year}`;
+    default:
+      return includeTime ? date.toLocaleString() : date.toLocaleDateString();
+  }
+}
+
+/**
+ * Gradient used for section titles, picked from the configured theme.
+ */
+export function themeGradient(text: string): string {
+  if (!runtimeConfig.colorOutput) return text;
+
+  const gradients = {
+    default: gradient.rainbow,
+    rainbow: gradient.rainbow,
+    dark: gradient.mind,
+    light: gradient.morning
+  };
+  return (gradients[runtimeConfig.theme] || gradient.rainbow)(text);
+}
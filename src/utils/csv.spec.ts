@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes only fields that need it and writes missing values as empty', () => {
+    assert.equal(toCsv([['a', 'b, c', 'say "hi"', undefined, null, 3]]), 'a,"b, c","say ""hi""",,,3');
+    assert.equal(toCsv([['line\nbreak'], ['x']]), '"line\nbreak"\nx');
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    assert.deepEqual(parseCsv('a,b\nc,d'), [['a', 'b'], ['c', 'd']]);
+  });
+
+  it('handles quoted commas, quotes and line breaks', () => {
+    assert.deepEqual(parseCsv('"a, b","say ""hi""","two\nlines"'), [['a, b', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('accepts CRLF endings, a BOM and a missing final newline', () => {
+    assert.deepEqual(parseCsv('﻿a,b\r\nc,d\r\n'), [['a', 'b'], ['c', 'd']]);
+    assert.deepEqual(parseCsv('a\rb'), [['a'], ['b']]);
+  });
+
+  it('skips blank lines but keeps rows of empty fields', () => {
+    assert.deepEqual(parseCsv('a\n\n\nb\n,\n'), [['a'], ['b'], ['', '']]);
+  });
+
+  it('keeps quotes that do not open a field', () => {
+    assert.deepEqual(parseCsv('5" disk,x'), [['5" disk', 'x']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    assert.throws(() => parseCsv('a,"b\nc'), /Unterminated quoted field/);
+  });
+
+  it('round-trips what toCsv writes', () => {
+    const rows = [['title', 'notes'], ['Ship, then rest', 'He said "go"\r\nthen left'], ['', 'ünïcødé']];
+    assert.deepEqual(parseCsv(toCsv(rows)), rows);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysUntil, dueTime, isPastDue, parseDueDate, parseOlderThan } from './dates';
+
+// Wednesday, 10 January 2024, 15:00 local time
+const now = new Date(2024, 0, 10, 15, 0);
+
+describe('parseDueDate', () => {
+  it('keeps calendar dates as dates', () => {
+    assert.equal(parseDueDate('2024-02-29', now), '2024-02-29');
+  });
+
+  it('rejects dates that are not on the calendar', () => {
+    assert.throws(() => parseDueDate('2023-02-29', now), /not a real calendar date/);
+    assert.throws(() => parseDueDate('2024-13-01', now), /not a real calendar date/);
+  });
+
+  it('stores ISO datetimes as UTC timestamps', () => {
+    assert.equal(parseDueDate('2024-01-15T09:00:00+02:00', now), '2024-01-15T07:00:00.000Z');
+    assert.equal(parseDueDate('2024-01-15 09:00', now), new Date(2024, 0, 15, 9, 0).toISOString());
+  });
+
+  it('understands named days', () => {
+    assert.equal(parseDueDate('today', now), '2024-01-10');
+    assert.equal(parseDueDate(' Tomorrow ', now), '2024-01-11');
+    assert.equal(parseDueDate('next week', now), '2024-01-17');
+    assert.equal(parseDueDate('next month', now), '2024-02-10');
+    assert.equal(parseDueDate('eod', now), new Date(2024, 0, 10, 23, 59, 59).toISOString());
+  });
+
+  it('takes a weekday to mean the next one after today', () => {
+    assert.equal(parseDueDate('friday', now), '2024-01-12');
+    assert.equal(parseDueDate('next friday', now), '2024-01-12');
+    assert.equal(parseDueDate('wednesday', now), '2024-01-17');
+    assert.equal(parseDueDate('monday', now), '2024-01-15');
+  });
+
+  it('adds relative offsets to today', () => {
+    assert.equal(parseDueDate('+3d', now), '2024-01-13');
+    assert.equal(parseDueDate('in 2 weeks', now), '2024-01-24');
+    assert.equal(parseDueDate('+2mo', now), '2024-03-10');
+    assert.equal(parseDueDate('in 1 month', now), '2024-02-10');
+    assert.equal(parseDueDate('+1y', now), '2025-01-10');
+  });
+
+  it('returns timestamps for hour and minute offsets', () => {
+    assert.equal(parseDueDate('+3h', now), new Date(2024, 0, 10, 18, 0).toISOString());
+    assert.equal(parseDueDate('+30min', now), new Date(2024, 0, 10, 15, 30).toISOString());
+    assert.equal(parseDueDate('in 45 minutes', now), new Date(2024, 0, 10, 15, 45).toISOString());
+  });
+
+  it('rejects a bare m as ambiguous', () => {
+    assert.throws(() => parseDueDate('+30m', now), /ambiguous\. Use 30min for minutes or 30mo for months/);
+    assert.throws(() => parseDueDate('in 2 m', now), /ambiguous/);
+  });
+
+  it('rejects input it does not understand', () => {
+    assert.throws(() => parseDueDate('', now), /Due date is empty/);
+    assert.throws(() => parseDueDate('someday', now), /Could not understand due date "someday"/);
+    assert.throws(() => parseDueDate('+3 fortnights', now), /Could not understand/);
+    assert.throws(() => parseDueDate('next thursdayish', now), /Could not understand/);
+  });
+});
+
+describe('isPastDue', () => {
+  it('keeps a calendar date due until the next local midnight', () => {
+    assert.equal(isPastDue('2024-01-10', now), false);
+    assert.equal(isPastDue('2024-01-10', new Date(2024, 0, 10, 23, 59, 59)), false);
+    assert.equal(isPastDue('2024-01-10', new Date(2024, 0, 11)), true);
+    assert.equal(isPastDue('2024-01-09', now), true);
+  });
+
+  it('compares timestamps to the moment', () => {
+    assert.equal(isPastDue(new Date(2024, 0, 10, 14, 59).toISOString(), now), true);
+    assert.equal(isPastDue(new Date(2024, 0, 10, 15, 1).toISOString(), now), false);
+  });
+
+  it('treats missing and unreadable values as not due', () => {
+    assert.equal(isPastDue(undefined, now), false);
+    assert.equal(isPastDue('not a date', now), false);
+  });
+});
+
+describe('dueTime', () => {
+  it('reads calendar dates as local midnight and sorts missing values last', () => {
+    assert.equal(dueTime('2024-01-10'), new Date(2024, 0, 10).getTime());
+    assert.equal(dueTime(undefined), Infinity);
+    assert.equal(dueTime('garbage'), Infinity);
+  });
+});
+
+describe('daysUntil', () => {
+  it('counts calendar days, negative when overdue', () => {
+    assert.equal(daysUntil('2024-01-10', now), 0);
+    assert.equal(daysUntil('2024-01-12', now), 2);
+    assert.equal(daysUntil('2024-01-08', now), -2);
+  });
+});
+
+describe('parseOlderThan', () => {
+  it('subtracts the age from now, with m meaning months', () => {
+    assert.deepEqual(parseOlderThan('30d', now), new Date(2023, 11, 11, 15, 0));
+    assert.deepEqual(parseOlderThan('2w', now), new Date(2023, 11, 27, 15, 0));
+    assert.deepEqual(parseOlderThan('6m', now), new Date(2023, 6, 10, 15, 0));
+    assert.deepEqual(parseOlderThan('1 year', now), new Date(2023, 0, 10, 15, 0));
+  });
+
+  it('rejects unknown ages', () => {
+    assert.throws(() => parseOlderThan('soon', now), /Invalid age "soon"/);
+    assert.throws(() => parseOlderThan('3 fortnights', now), /Invalid age/);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Due date parsing. Dues are stored either as a calendar date (YYYY-MM-DD)
+ * or, when a time of day matters, as a full ISO timestamp.
+ */
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+type Unit = 'min' | 'h' | 'd' | 'w' | 'm' | 'y';
+
+// A bare "m" means months (as in --older-than 6m); --due rejects it as ambiguous
+const UNIT_ALIASES: Record<string, Unit> = {
+  min: 'min', mins: 'min', minute: 'min', minutes: 'min',
+  h: 'h', hour: 'h', hours: 'h',
+  d: 'd', day: 'd', days: 'd',
+  w: 'w', week: 'w', weeks: 'w',
+  m: 'm', mo: 'm', month: 'm', months: 'm',
+  y: 'y', year: 'y', years: 'y'
+};
+
+const DUE_DATE_EXAMPLES = 'YYYY-MM-DD, an ISO datetime (2024-01-15T09:00:00+02:00), today, tomorrow, eod, friday, next friday, +3d, +30min, +2mo, in 2 weeks';
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Local calendar date as YYYY-MM-DD
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addToDate(date: Date, amount: number, unit: Unit): Date {
+  const result = new Date(date);
+  switch (unit) {
+    case 'min':
+      result.setMinutes(result.getMinutes() + amount);
+      break;
+    case 'h':
+      result.setHours(result.getHours() + amount);
+      break;
+    case 'd':
+      result.setDate(result.getDate() + amount);
+      break;
+    case 'w':
+      result.setDate(result.getDate() + amount * 7);
+      break;
+    case 'm':
+      result.setMonth(result.getMonth() + amount);
+      break;
+    case 'y':
+      result.setFullYear(result.getFullYear() + amount);
+      break;
+  }
+  return result;
+}
+
+export function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/**
+ * Parse a --due value relative to `now`. Returns YYYY-MM-DD for calendar
+ * dates and a UTC ISO timestamp when a time is involved (eod, +3h, ISO
+ * datetimes). Throws with the accepted formats when the input is unknown.
+ */
+export function parseDueDate(input: string, now = new Date()): string {
+  const value = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  const today = startOfDay(now);
+
+  if (!value) {
+    throw new Error(`Due date is empty. Use ${DUE_DATE_EXAMPLES}`);
+  }
+
+  // Calendar date
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (dateMatch) {
+    const [year, month, day] = dateMatch.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      throw new Error(`"${input}" is not a real calendar date`);
+    }
+    return toDateString(date);
+  }
+
+  // ISO datetime, with or without a time zone (local time when omitted)
+  if (/^\d{4}-\d{2}-\d{2}[t ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})?$/.test(value)) {
+    const date = new Date(value.replace(' ', 'T').toUpperCase());
+    if (isNaN(date.getTime())) {
+      throw new Error(`"${input}" is not a valid ISO datetime`);
+    }
+    return date.toISOString();
+  }
+
+  switch (value) {
+    case 'today':
+      return toDateString(today);
+    case 'tomorrow':
+      return toDateString(addToDate(today, 1, 'd'));
+    case 'eod':
+      return new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59).toISOString();
+    case 'next week':
+      return toDateString(addToDate(today, 1, 'w'));
+    case 'next month':
+      return toDateString(addToDate(today, 1, 'm'));
+  }
+
+  // "friday" and "next friday" both mean the first friday after today
+  const weekdayMatch = /^(?:next )?([a-z]+)$/.exec(value);
+  if (weekdayMatch && WEEKDAY_NAMES.includes(weekdayMatch[1])) {
+    const target = WEEKDAY_NAMES.indexOf(weekdayMatch[1]);
+    const days = (target - today.getDay() + 7) % 7 || 7;
+    return toDateString(addToDate(today, days, 'd'));
+  }
+
+  // "+3d", "+2w", "+30min", "in 2 weeks", "in 1 month"
+  const relativeMatch = /^(?:\+|in )(\d+) ?([a-z]+)$/.exec(value);
+  if (relativeMatch && relativeMatch[2] === 'm') {
+    throw new Error(`"${input}" is ambiguous. Use ${relativeMatch[1]}min for minutes or ${relativeMatch[1]}mo for months`);
+  }
+  if (relativeMatch && UNIT_ALIASES[relativeMatch[2]]) {
+    const unit = UNIT_ALIASES[relativeMatch[2]];
+    const amount = Number(relativeMatch[1]);
+    return unit === 'h' || unit === 'min'
+      ? addToDate(now, amount, unit).toISOString()
+      : toDateString(addToDate(today, amount, unit));
+  }
+
+  throw new Error(`Could not understand due date "${input}". Use ${DUE_DATE_EXAMPLES}`);
+}
+
+/**
+ * Timestamp of a stored due value for sorting. Calendar dates count from
+ * local midnight; missing or unreadable values sort last.
+ */
+export function dueTime(due: string | undefined): number {
+  if (!due) return Infinity;
+  const time = (isDateOnly(due) ? new Date(`${due}T00:00:00`) : new Date(due)).getTime();
+  return isNaN(time) ? Infinity : time;
+}
+
+/**
+ * Whether a due value has passed. A calendar date is due until the end
+ * of that day, i.e. the next local midnight (not always 24h away).
+ */
+export function isPastDue(due: string | undefined, now = new Date()): boolean {
+  if (!due) return false;
+  if (isDateOnly(due)) {
+    const [year, month, day] = due.split('-').map(Number);
+    return new Date(year, month - 1, day + 1).getTime() <= now.getTime();
+  }
+  const time = dueTime(due);
+  return time !== Infinity && time <= now.getTime();
+}
+
+/**
+ * Whole calendar days from today until a due value (negative when overdue).
+ */
+export function daysUntil(due: string, now = new Date()): number {
+  const date = isDateOnly(due) ? new Date(`${due}T00:00:00`) : new Date(due);
+  return Math.round((startOfDay(date).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Days from today to the end of the current week (weeks start on Monday).
+ */
+export function daysLeftInWeek(now = new Date()): number {
+  return (7 - now.getDay()) % 7;
+}
+
+/**
+ * Cutoff for an --older-than value ("30d", "2w", "6m", "1 year"): the
+ * moment that long before `now`.
+ */
+export function parseOlderThan(input: string, now = new Date()): Date {
+  const match = /^(\d+) ?([a-z]+)$/.exec(input.trim().toLowerCase());
+  if (!match || !UNIT_ALIASES[match[2]]) {
+    throw new Error(`Invalid age "${input}". Use e.g. 30d, 2w, 6m (months) or 1y`);
+  }
+  return addToDate(now, -Number(match[1]), UNIT_ALIASES[match[2]]);
+}
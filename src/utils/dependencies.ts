@@ -0,0 +1,78 @@
+import type { Task } from '../types/index';
+
+const PRIORITY_RANK = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+export function isOpenTask(task: Task): boolean {
+  return task.status !== 'completed' && task.status !== 'cancelled';
+}
+
+/**
+ * Prerequisites of `task` that are still open. Ids of deleted tasks are
+ * treated as satisfied.
+ */
+export function openPrerequisites(task: Task, tasksById: Map<string, Task>): Task[] {
+  return (task.dependsOn || [])
+    .map(id => tasksById.get(id))
+    .filter(dep => dep && isOpenTask(dep));
+}
+
+export function isBlocked(task: Task, tasksById: Map<string, Task>): boolean {
+  return isOpenTask(task) && openPrerequisites(task, tasksById).length > 0;
+}
+
+/**
+ * If making `taskId` depend on `dependsOn` would close a loop, return the
+ * loop as a list of task ids (starting and ending with `taskId`).
+ */
+export function findCycle(tasks: Task[], taskId: string, dependsOn: string[]): string[] | undefined {
+  const edges = new Map(tasks.map(task => [task.id, task.dependsOn || []]));
+  edges.set(taskId, dependsOn);
+
+  const visit = (id: string, path: string[]): string[] | undefined => {
+    for (const next of edges.get(id) || []) {
+      if (next === taskId) return [...path, next];
+      if (path.includes(next)) continue;
+      const cycle = visit(next, [...path, next]);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  };
+
+  return visit(taskId, [taskId]);
+}
+
+/**
+ * Open tasks in dependency order (Kahn's algorithm): every task comes after
+ * its open prerequisites; ties go to higher priority, then older tasks.
+ */
+export function topologicalOrder(tasks: Task[]): Task[] {
+  const open = tasks.filter(isOpenTask);
+  const openIds = new Set(open.map(task => task.id));
+  const remaining = new Map(open.map(task => [
+    task.id,
+    new Set((task.dependsOn || []).filter(id => openIds.has(id)))
+  ]));
+
+  const compare = (a: Task, b: Task) =>
+    (PRIORITY_RANK[a.priority] ?? 4) - (PRIORITY_RANK[b.priority] ?? 4) ||
+    a.createdAt.localeCompare(b.createdAt);
+
+  const ordered: Task[] = [];
+  let ready = open.filter(task => remaining.get(task.id).size === 0);
+
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const task = ready.shift();
+    ordered.push(task);
+    remaining.delete(task.id);
+
+    remaining.forEach((deps, id) => {
+      if (deps.delete(task.id) && deps.size === 0) {
+        ready.push(open.find(t => t.id === id));
+      }
+    });
+  }
+
+  // Anything left is part of a cycle created outside `task depend`
+  return [...ordered, ...open.filter(task => remaining.has(task.id))];
+}
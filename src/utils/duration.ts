@@ -0,0 +1,29 @@
+/**
+ * Durations for logged work, always counted in whole minutes.
+ */
+
+/**
+ * Parse "1h30m", "45m", "2h", "1.5h" or "2h 15m" into minutes.
+ */
+export function parseDuration(input: string): number {
+  const match = /^(?:(\d+(?:\.\d+)?)h)?\s*(?:(\d+)m)?$/i.exec(input.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid duration "${input}". Use e.g. 1h30m, 45m, 2h or 1.5h`);
+  }
+  const minutes = Math.round(Number(match[1] || 0) * 60 + Number(match[2] || 0));
+  if (minutes <= 0) {
+    throw new Error('Duration must be at least one minute');
+  }
+  return minutes;
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+export function minutesBetween(start: string, end: string): number {
+  return Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000));
+}
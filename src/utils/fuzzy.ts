@@ -0,0 +1,169 @@
+import chalk from 'chalk';
+
+/**
+ * Typo-tolerant matching for the search commands. Scores run from 0 to 1:
+ * exact substrings score highest, then words within a small edit distance,
+ * then loose subsequences ("dcmnt" in "document").
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  positions: number[]; // matched character indexes in the text, for highlighting
+}
+
+export interface FuzzyResult<T> {
+  item: T;
+  score: number;
+  matches: Record<string, number[]>;
+}
+
+export interface FuzzyField<T> {
+  value: (item: T) => string | undefined;
+  weight?: number;
+}
+
+const MIN_SCORE = 0.3;
+
+function range(start: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => start + i);
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent swaps
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+function allowedTypos(word: string): number {
+  if (word.length <= 3) return 0;
+  return word.length <= 6 ? 1 : 2;
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[^a-z0-9]/i.test(text[index - 1]);
+}
+
+function matchWord(word: string, text: string): FuzzyMatch | undefined {
+  // Substring, preferring matches at the start of a word
+  const index = text.indexOf(word);
+  if (index !== -1) {
+    return { score: isWordStart(text, index) ? 0.95 : 0.85, positions: range(index, word.length) };
+  }
+
+  // Typos: compare against each word in the text, or its prefix for partial words
+  let best: FuzzyMatch | undefined;
+  const maxTypos = allowedTypos(word);
+  if (maxTypos > 0) {
+    for (const match of text.matchAll(/[a-z0-9]+/gi)) {
+      const candidate = match[0];
+      for (const length of new Set([candidate.length, word.length - 1, word.length, word.length + 1])) {
+        if (length < 1 || length > candidate.length) continue;
+        const distance = editDistance(word, candidate.slice(0, length));
+        if (distance > maxTypos) continue;
+        const score = 0.8 - distance * 0.15 - (length < candidate.length ? 0.05 : 0);
+        if (!best || score > best.score) {
+          best = { score, positions: range(match.index, length) };
+        }
+      }
+    }
+  }
+  if (best) return best;
+
+  // Subsequence, penalized by how spread out it is
+  const positions: number[] = [];
+  let from = 0;
+  for (const char of word) {
+    const found = text.indexOf(char, from);
+    if (found === -1) return undefined;
+    positions.push(found);
+    from = found + 1;
+  }
+  const span = positions[positions.length - 1] - positions[0] + 1;
+  if (word.length < 3 || span > word.length * 3) return undefined;
+  return { score: 0.6 * (word.length / span), positions };
+}
+
+/**
+ * Match every word of `query` against `text`, case-insensitively.
+ */
+export function fuzzyMatch(query: string, text: string | undefined): FuzzyMatch | undefined {
+  const needle = query.trim().toLowerCase();
+  const haystack = (text || '').toLowerCase();
+  if (!needle || !haystack) return undefined;
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    return { score: index === 0 ? 1 : 0.97, positions: range(index, needle.length) };
+  }
+
+  const matches = needle.split(/\s+/).map(word => matchWord(word, haystack));
+  if (matches.some(match => !match)) return undefined;
+
+  const score = matches.reduce((total, match) => total + match.score, 0) / matches.length;
+  const positions = [...new Set(matches.flatMap(match => match.positions))].sort((a, b) => a - b);
+  return score >= MIN_SCORE ? { score, positions } : undefined;
+}
+
+/**
+ * Rank `items` by their best-matching field. Items without any match are
+ * dropped.
+ */
+export function fuzzySearch<T>(items: T[], query: string, fields: Record<string, FuzzyField<T>>): FuzzyResult<T>[] {
+  const results: FuzzyResult<T>[] = [];
+
+  for (const item of items) {
+    let score = 0;
+    const matches: Record<string, number[]> = {};
+
+    for (const [name, field] of Object.entries(fields)) {
+      const match = fuzzyMatch(query, field.value(item));
+      if (!match) continue;
+      matches[name] = match.positions;
+      score = Math.max(score, match.score * (field.weight ?? 1));
+    }
+
+    if (score > 0) results.push({ item, score, matches });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Emphasize matched characters.
+ */
+export function highlight(text: string, positions: number[] | undefined): string {
+  if (!positions || positions.length === 0) return text;
+  const matched = new Set(positions);
+  let result = '';
+  let run = '';
+
+  for (let i = 0; i < text.length; i++) {
+    if (matched.has(i)) {
+      run += text[i];
+      continue;
+    }
+    if (run) {
+      result += chalk.yellow.bold(run);
+      run = '';
+    }
+    result += text[i];
+  }
+
+  return result + (run ? chalk.yellow.bold(run) : '');
+}
+
+export function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
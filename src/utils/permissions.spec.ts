@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assertPermission,
+  hasPermission,
+  isBootstrap,
+  PERMISSIONS,
+  requiredPermission,
+  revertPermissions,
+  setCurrentUser
+} from './permissions';
+import type { JournalChange } from '../storage/journal';
+import type { User } from '../types/index';
+
+function user(fields: Partial<User>): User {
+  return {
+    id: 'u1',
+    name: 'Ada',
+    email: 'ada@example.com',
+    role: 'user',
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+    ...fields
+  };
+}
+
+function change(collection: string): JournalChange {
+  return { target: { collection }, key: 'k1', after: {} };
+}
+
+describe('hasPermission', () => {
+  it('grants each role its permissions and nothing more', () => {
+    const granted = (role: User['role']) => PERMISSIONS.filter(permission => hasPermission(role, permission));
+    assert.deepEqual(granted('admin'), ['read', 'write', 'manage-users', 'configure', 'admin']);
+    assert.deepEqual(granted('moderator'), ['read', 'write', 'manage-users']);
+    assert.deepEqual(granted('user'), ['read', 'write']);
+    assert.deepEqual(granted('guest'), ['read']);
+  });
+
+  it('grants nothing to unknown roles', () => {
+    assert.equal(hasPermission('owner' as User['role'], 'read'), false);
+  });
+});
+
+describe('requiredPermission', () => {
+  it('uses the longest matching command prefix', () => {
+    assert.equal(requiredPermission('user'), 'manage-users');
+    assert.equal(requiredPermission('user add'), 'manage-users');
+    assert.equal(requiredPermission('user list'), 'read');
+    assert.equal(requiredPermission('user trash restore'), 'manage-users');
+    assert.equal(requiredPermission('user trash purge'), 'admin');
+    assert.equal(requiredPermission('config set'), 'configure');
+    assert.equal(requiredPermission('config get'), 'read');
+    assert.equal(requiredPermission('config reset'), 'admin');
+    assert.equal(requiredPermission('task query list'), 'read');
+  });
+
+  it('needs write for commands it does not list', () => {
+    assert.equal(requiredPermission('task add'), 'write');
+    assert.equal(requiredPermission('task bulk delete'), 'write');
+    assert.equal(requiredPermission('undo'), 'write');
+    assert.equal(requiredPermission('brand-new'), 'write');
+  });
+});
+
+describe('isBootstrap', () => {
+  it('lets user add run without an identity on an empty store', () => {
+    assert.equal(isBootstrap('user add', undefined, 0), true);
+  });
+
+  it('needs the permission once any user is stored, trashed ones included', () => {
+    assert.equal(isBootstrap('user add', undefined, 1), false);
+  });
+
+  it('only covers user add, run without an identity', () => {
+    assert.equal(isBootstrap('user trash restore', undefined, 0), false);
+    assert.equal(isBootstrap('user import', undefined, 0), false);
+    assert.equal(isBootstrap('user add', user({ role: 'guest' }), 0), false);
+  });
+});
+
+describe('revertPermissions', () => {
+  it('needs the permission of each changed collection, write by default', () => {
+    assert.deepEqual(revertPermissions({ changes: [change('tasks'), change('users'), change('config')] }), ['write', 'manage-users', 'configure']);
+  });
+
+  it('adds the permission the original command needed', () => {
+    assert.deepEqual(revertPermissions({ changes: [change('tasks')], permission: 'admin' }), ['write', 'admin']);
+    assert.deepEqual(revertPermissions({ changes: [change('users'), change('users')], permission: 'manage-users' }), ['manage-users']);
+  });
+});
+
+describe('assertPermission', () => {
+  it('checks the named user\'s role', () => {
+    setCurrentUser(user({ role: 'moderator' }), 'admin');
+    assert.doesNotThrow(() => assertPermission('manage-users', 'user add'));
+    assert.throws(
+      () => assertPermission('admin', 'user clear'),
+      /Permission denied: Ada \(u1\) is a moderator, and user clear needs the "admin" permission/
+    );
+  });
+
+  it('uses defaultRole without an identity', () => {
+    setCurrentUser(undefined, 'guest');
+    assert.doesNotThrow(() => assertPermission('read', 'task list'));
+    assert.throws(() => assertPermission('write', 'task add'), /without --as or DEMO_CLI_USER you run as a guest \(the defaultRole setting\)/);
+    setCurrentUser(undefined, 'admin');
+    assert.doesNotThrow(() => assertPermission('admin', 'config reset'));
+  });
+});
@@ -0,0 +1,162 @@
+import type { Command } from 'commander';
+import type { JournalEntry } from '../storage/journal';
+import type { User } from '../types/index';
+
+/**
+ * Role-based permissions. Commands run as the user given with the global
+ * --as option or DEMO_CLI_USER; without an identity they run with the
+ * `defaultRole` setting (admin unless changed, so roles only restrict
+ * runs that name a user).
+ */
+
+export type Permission = 'read' | 'write' | 'manage-users' | 'configure' | 'admin';
+
+export const PERMISSIONS: Permission[] = ['read', 'write', 'manage-users', 'configure', 'admin'];
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  read: 'View, list, search, report and export',
+  write: 'Change tasks, profiles and files; undo and redo them',
+  'manage-users': 'Add, update, import, delete and restore users',
+  configure: 'Change configuration settings',
+  admin: 'Destructive operations: user clear, config reset, purging the trash'
+};
+
+export const ROLE_PERMISSIONS: Record<User['role'], Permission[]> = {
+  admin: ['read', 'write', 'manage-users', 'configure', 'admin'],
+  moderator: ['read', 'write', 'manage-users'],
+  user: ['read', 'write'],
+  guest: ['read']
+};
+
+// Permission needed per command path. The longest matching prefix wins;
+// commands not covered here need `write`, so new commands are never
+// open to guests by accident.
+const COMMAND_PERMISSIONS: Record<string, Permission> = {
+  '*': 'read',
+  'examples': 'read',
+  'list-commands': 'read',
+  'search': 'read',
+  'history': 'read',
+  'audit': 'read',
+  'system': 'read',
+  'file read': 'read',
+  'file list': 'read',
+  'profile view': 'read',
+  'profile list': 'read',
+  'task list': 'read',
+  'task agenda': 'read',
+  'task board': 'read',
+  'task report': 'read',
+  'task search': 'read',
+  'task query list': 'read',
+  'task export': 'read',
+  'task trash list': 'read',
+  'task trash purge': 'admin',
+  'user': 'manage-users',
+  'user list': 'read',
+  'user search': 'read',
+  'user permissions': 'read',
+  'user trash list': 'read',
+  'user trash purge': 'admin',
+  'user clear': 'admin',
+  'config': 'configure',
+  'config get': 'read',
+  'config list': 'read',
+  'config export': 'read',
+  'config reset': 'admin'
+};
+
+// Permission needed to undo or redo changes to a collection
+const COLLECTION_PERMISSIONS: Record<string, Permission> = {
+  users: 'manage-users',
+  config: 'configure'
+};
+
+// Before any user exists, this command needs no permission, so the first
+// admin can be created even with a restricted defaultRole
+const BOOTSTRAP_COMMAND = 'user add';
+
+let currentUser: User | undefined;
+let currentRole: User['role'] = 'admin';
+let commandPermission: Permission | undefined;
+
+// "task bulk delete" for the command being run, without the program name
+export function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let current = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ');
+}
+
+export function requiredPermission(path: string): Permission {
+  const words = path.split(' ');
+  for (let length = words.length; length > 0; length--) {
+    const permission = COMMAND_PERMISSIONS[words.slice(0, length).join(' ')];
+    if (permission) return permission;
+  }
+  return 'write';
+}
+
+function collectionPermission(collection: string): Permission {
+  return COLLECTION_PERMISSIONS[collection] || 'write';
+}
+
+/**
+ * Permissions needed to undo or redo a journal entry: the one its command
+ * needed and the one for each collection it changed. Entries written
+ * before commands were recorded only carry the collections.
+ */
+export function revertPermissions(entry: Pick<JournalEntry, 'changes' | 'permission'>): Permission[] {
+  const permissions = new Set(entry.changes.map(change => collectionPermission(change.target.collection)));
+  if (entry.permission) permissions.add(entry.permission);
+  return [...permissions];
+}
+
+/**
+ * Whether `path` may skip its permission check: `user add` run without an
+ * identity on a store with no users at all, trashed ones included.
+ */
+export function isBootstrap(path: string, user: User | undefined, storedUsers: number): boolean {
+  return !user && path === BOOTSTRAP_COMMAND && storedUsers === 0;
+}
+
+export function hasPermission(role: User['role'], permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Throw unless the current user may do this. `action` names it in the
+ * message, e.g. a command path.
+ */
+export function assertPermission(permission: Permission, action: string): void {
+  if (hasPermission(currentRole, permission)) return;
+  const article = currentRole === 'admin' ? 'an' : 'a';
+  const who = currentUser
+    ? `${currentUser.name} (${currentUser.id}) is ${article} ${currentRole}`
+    : `without --as or DEMO_CLI_USER you run as ${article} ${currentRole} (the defaultRole setting)`;
+  throw new Error(
+    `Permission denied: ${who}, ` +
+    `and ${action} needs the "${permission}" permission (${PERMISSION_DESCRIPTIONS[permission].toLowerCase()})`
+  );
+}
+
+// Set once from the preAction hook; `defaultRole` applies without a user
+export function setCurrentUser(user: User | undefined, defaultRole: User['role']): void {
+  currentUser = user;
+  currentRole = user ? user.role : defaultRole;
+}
+
+export function getCurrentUser(): User | undefined {
+  return currentUser;
+}
+
+// Permission the running command needed, kept with its journal entry so
+// undo and redo need it too
+export function setCommandPermission(permission: Permission): void {
+  commandPermission = permission;
+}
+
+export function getCommandPermission(): Permission | undefined {
+  return commandPermission;
+}
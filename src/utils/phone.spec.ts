@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isRegion, normalizePhone } from './phone';
+
+describe('isRegion', () => {
+  it('knows regions with a calling code, ignoring case', () => {
+    assert.equal(isRegion('gb'), true);
+    assert.equal(isRegion('XX'), false);
+    assert.equal(isRegion('toString'), false);
+  });
+});
+
+describe('normalizePhone', () => {
+  it('keeps the country code of international numbers', () => {
+    assert.equal(normalizePhone('+44 20 7946 0958'), '+442079460958');
+    assert.equal(normalizePhone(' +1 (415) 555-2671 '), '+14155552671');
+    assert.equal(normalizePhone('0044 20 7946 0958', 'US'), '+442079460958');
+  });
+
+  it('reads national numbers in the default region, dropping the trunk prefix', () => {
+    assert.equal(normalizePhone('020 7946 0958', 'GB'), '+442079460958');
+    assert.equal(normalizePhone('030.1234.5678', 'de'), '+493012345678');
+  });
+
+  it('keeps the leading 0 where the region dials it', () => {
+    assert.equal(normalizePhone('06 1234 5678', 'IT'), '+390612345678');
+  });
+
+  it('accepts North American numbers with or without their leading 1', () => {
+    assert.equal(normalizePhone('(415) 555-2671', 'US'), '+14155552671');
+    assert.equal(normalizePhone('1-415-555-2671', 'CA'), '+14155552671');
+    assert.throws(() => normalizePhone('555-2671', 'US'), /US numbers have 10 digits/);
+  });
+
+  it('rejects numbers it cannot normalize', () => {
+    assert.throws(() => normalizePhone('call me'), /Invalid phone number "call me". Use digits/);
+    assert.throws(() => normalizePhone('020 7946 0958'), /has no country code/);
+    assert.throws(() => normalizePhone('020 7946 0958', 'XX'), /has no country code/);
+    assert.throws(() => normalizePhone('+44 12'), /8 to 15 digits/);
+    assert.throws(() => normalizePhone('+44 1234 5678 9012 3456'), /8 to 15 digits/);
+    assert.throws(() => normalizePhone('+0 20 7946 0958'), /8 to 15 digits/);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Phone number normalization to E.164: "+", the country calling code and
+ * the national number, 8 to 15 digits in all. Numbers typed without a
+ * country code are read as national numbers of a default region.
+ */
+
+// ISO 3166 region -> country calling code
+export const CALLING_CODES: Record<string, string> = {
+  US: '1', CA: '1', GB: '44', IE: '353', DE: '49', FR: '33', ES: '34', IT: '39',
+  NL: '31', BE: '32', CH: '41', AT: '43', SE: '46', NO: '47', DK: '45', FI: '358',
+  PL: '48', PT: '351', AU: '61', NZ: '64', JP: '81', CN: '86', IN: '91', SG: '65',
+  BR: '55', MX: '52', ZA: '27'
+};
+
+// Regions whose national numbers keep their leading 0 after the country code
+const KEEPS_LEADING_ZERO = ['IT'];
+
+export function isRegion(value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CALLING_CODES, value.toUpperCase());
+}
+
+/**
+ * Normalize a phone number to E.164. "+44 20 7946 0958" and "0044 20..."
+ * carry their own country code; "020 7946 0958" needs `defaultRegion`
+ * (GB), which also drops the national trunk prefix. Throws when the
+ * number can't be normalized.
+ */
+export function normalizePhone(input: string, defaultRegion?: string): string {
+  const value = input.trim();
+  if (!/^\+?[\d\s().\/-]+$/.test(value)) {
+    throw new Error(`Invalid phone number "${input}". Use digits, spaces, dashes and an optional leading +`);
+  }
+
+  let digits = value.replace(/\D/g, '');
+
+  if (value.startsWith('+')) {
+    // already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else {
+    const region = (defaultRegion || '').toUpperCase();
+    const code = CALLING_CODES[region];
+    if (!code) {
+      throw new Error(`Phone number "${input}" has no country code. Write it as +<country code> <number> or set a default region (config set defaultRegion GB)`);
+    }
+
+    // North American numbers are often written with their leading 1
+    if (code === '1') {
+      if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+      if (digits.length !== 10) {
+        throw new Error(`Invalid phone number "${input}". ${region} numbers have 10 digits`);
+      }
+    } else if (digits.startsWith('0') && !KEEPS_LEADING_ZERO.includes(region)) {
+      digits = digits.slice(1);
+    }
+    digits = code + digits;
+  }
+
+  if (digits.startsWith('0') || digits.length < 8 || digits.length > 15) {
+    throw new Error(`Invalid phone number "${input}". Numbers have 8 to 15 digits including the country code`);
+  }
+
+  return `+${digits}`;
+}
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesQuery, parseQuery } from './query';
+import type { Task } from '../types/index';
+
+function task(fields: Partial<Task>): Task {
+  return {
+    id: 'task1',
+    title: 'Untitled',
+    description: '',
+    priority: 'medium',
+    status: 'pending',
+    tags: [],
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+    ...fields
+  };
+}
+
+// Titles of the tasks a query selects, in order
+function select(query: string, tasks: Task[]): string[] {
+  const node = parseQuery(query);
+  const tasksById = new Map(tasks.map(item => [item.id, item]));
+  return tasks.filter(item => matchesQuery(node, item, { tasksById })).map(item => item.title);
+}
+
+describe('parseQuery', () => {
+  it('ANDs adjacent terms and binds AND tighter than OR', () => {
+    assert.deepEqual(parseQuery('a b OR c'), {
+      type: 'or',
+      left: { type: 'and', left: { type: 'text', value: 'a' }, right: { type: 'text', value: 'b' } },
+      right: { type: 'text', value: 'c' }
+    });
+  });
+
+  it('groups with parentheses and negates with NOT and -', () => {
+    assert.deepEqual(parseQuery('NOT (a or b)'), parseQuery('-(a OR b)'));
+    assert.deepEqual(parseQuery('-tag:x'), {
+      type: 'not',
+      node: { type: 'field', field: 'tag', op: ':', value: 'x' }
+    });
+  });
+
+  it('keeps quoted phrases and quoted field values together', () => {
+    assert.deepEqual(parseQuery('"login bug"'), { type: 'text', value: 'login bug' });
+    assert.deepEqual(parseQuery('title:"login bug"'), { type: 'field', field: 'title', op: ':', value: 'login bug' });
+  });
+
+  it('resolves field aliases and comparison operators', () => {
+    assert.deepEqual(parseQuery('prio>=high'), { type: 'field', field: 'priority', op: '>=', value: 'high' });
+    assert.deepEqual(parseQuery('tags!=none'), { type: 'field', field: 'tag', op: '!=', value: 'none' });
+  });
+
+  it('reads words without field syntax as text', () => {
+    assert.deepEqual(parseQuery('fix-it'), { type: 'text', value: 'fix-it' });
+  });
+
+  it('rejects malformed queries', () => {
+    assert.throws(() => parseQuery(''), /Query is empty/);
+    assert.throws(() => parseQuery('owner:me'), /Unknown field "owner"/);
+    assert.throws(() => parseQuery('status:'), /Missing value for "status:"/);
+    assert.throws(() => parseQuery('tag>x'), /">" only works with priority, due, created, updated, completed/);
+    assert.throws(() => parseQuery('priority:critical'), /Invalid priority "critical"/);
+    assert.throws(() => parseQuery('status:done'), /Invalid status "done"/);
+    assert.throws(() => parseQuery('is:stale'), /Invalid value "stale" for is:/);
+    assert.throws(() => parseQuery('due<someday'), /Invalid date for due/);
+    assert.throws(() => parseQuery('"login bug'), /Unterminated quote at position 1/);
+    assert.throws(() => parseQuery('(a OR b'), /Missing "\)"/);
+    assert.throws(() => parseQuery('a)'), /Unexpected "\)"/);
+    assert.throws(() => parseQuery('a OR'), /Query ends unexpectedly/);
+    assert.throws(() => parseQuery('OR a'), /Unexpected "OR"/);
+  });
+});
+
+describe('matchesQuery', () => {
+  const tasks = [
+    task({ id: 't1', title: 'Fix login bug', priority: 'urgent', tags: ['backend', 'Auth'], assignee: 'u1', due: '2024-01-10' }),
+    task({ id: 't2', title: 'Design review', description: 'Check the login screen', priority: 'low', tags: ['design'] }),
+    task({ id: 't3', title: 'Deploy', priority: 'high', status: 'completed', due: '2024-01-05', completedAt: new Date(2024, 0, 5, 10).toISOString() }),
+    task({ id: 't4', title: 'Write docs', dependsOn: ['t1'], parentId: 't2', due: new Date(2024, 0, 10, 18, 30).toISOString() })
+  ];
+
+  it('matches text in the title or description, ignoring case', () => {
+    assert.deepEqual(select('LOGIN', tasks), ['Fix login bug', 'Design review']);
+    assert.deepEqual(select('title:login', tasks), ['Fix login bug']);
+    assert.deepEqual(select('title="design review"', tasks), ['Design review']);
+  });
+
+  it('compares priorities by rank', () => {
+    assert.deepEqual(select('priority>=high', tasks), ['Fix login bug', 'Deploy']);
+    assert.deepEqual(select('priority<medium', tasks), ['Design review']);
+  });
+
+  it('matches tags and assignees case-insensitively, with none for empty', () => {
+    assert.deepEqual(select('tag:auth', tasks), ['Fix login bug']);
+    assert.deepEqual(select('tag:none', tasks), ['Deploy', 'Write docs']);
+    assert.deepEqual(select('assignee:none', tasks), ['Design review', 'Deploy', 'Write docs']);
+    assert.deepEqual(select('-tag:backend status:pending', tasks), ['Design review', 'Write docs']);
+  });
+
+  it('combines terms with OR, NOT and parentheses', () => {
+    assert.deepEqual(select('(tag:design OR tag:backend) AND NOT priority:low', tasks), ['Fix login bug']);
+    assert.deepEqual(select('status:completed OR parent:t2', tasks), ['Deploy', 'Write docs']);
+  });
+
+  it('treats a calendar date as the whole local day', () => {
+    assert.deepEqual(select('due:2024-01-10', tasks), ['Fix login bug', 'Write docs']);
+    assert.deepEqual(select('due>2024-01-05', tasks), ['Fix login bug', 'Write docs']);
+    assert.deepEqual(select('due<=2024-01-05', tasks), ['Deploy']);
+    assert.deepEqual(select('due!=2024-01-10', tasks), ['Deploy']);
+    assert.deepEqual(select('due:none', tasks), ['Design review']);
+    assert.deepEqual(select('completed:2024-01-05', tasks), ['Deploy']);
+  });
+
+  it('checks is: states against the other tasks', () => {
+    assert.deepEqual(select('is:blocked', tasks), ['Write docs']);
+    assert.deepEqual(select('is:subtask', tasks), ['Write docs']);
+    assert.deepEqual(select('is:closed', tasks), ['Deploy']);
+    assert.deepEqual(select('is:open -is:blocked', tasks), ['Fix login bug', 'Design review']);
+  });
+});
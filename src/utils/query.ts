@@ -0,0 +1,308 @@
+import { dueTime, isDateOnly, isPastDue, parseDueDate } from './dates';
+import { isBlocked, isOpenTask } from './dependencies';
+import type { Task } from '../types/index';
+
+/**
+ * Task query language used by `task list --query` and `task search --query`.
+ *
+ *   status:pending priority>=high tag:backend due<+7d -tag:blocked "login bug"
+ *   (tag:frontend OR tag:design) AND NOT assignee:none
+ *
+ * Terms next to each other are ANDed. `-term` and `NOT term` negate. Bare
+ * words and quoted phrases match the title or description.
+ */
+
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; node: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'field'; field: string; op: Operator; value: string; time?: [number, number] };
+
+export interface QueryContext {
+  tasksById: Map<string, Task>;
+}
+
+type Operator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+const PRIORITY_ORDER = ['low', 'medium', 'high', 'urgent'];
+const STATUS_VALUES = ['pending', 'in-progress', 'completed', 'cancelled'];
+const IS_VALUES = ['open', 'closed', 'overdue', 'blocked', 'subtask', 'repeating'];
+const DATE_FIELDS = ['due', 'created', 'updated', 'completed'];
+const TEXT_FIELDS = ['title', 'description'];
+const FIELDS = ['status', 'priority', 'tag', 'assignee', 'id', 'parent', 'is', ...DATE_FIELDS, ...TEXT_FIELDS];
+const FIELD_ALIASES = { tags: 'tag', desc: 'description', prio: 'priority' };
+const ORDERED_FIELDS = ['priority', ...DATE_FIELDS];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type Token = { kind: 'lparen' | 'rparen' | 'word' | 'phrase'; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char });
+      i++;
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw new Error(`Unterminated quote at position ${i + 1}`);
+      tokens.push({ kind: 'phrase', value: input.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      // A word runs to the next space or paren; quotes inside it (title:"a b") are kept together
+      let value = '';
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        if (input[i] === '"') {
+          const end = input.indexOf('"', i + 1);
+          if (end === -1) throw new Error(`Unterminated quote at position ${i + 1}`);
+          value += input.slice(i + 1, end);
+          i = end + 1;
+        } else {
+          value += input[i++];
+        }
+      }
+      tokens.push({ kind: 'word', value });
+    }
+  }
+
+  return tokens;
+}
+
+// Resolve a date value to the [start, end) range it covers
+function parseDateValue(field: string, value: string): [number, number] {
+  try {
+    const parsed = parseDueDate(value);
+    const start = dueTime(parsed);
+    return [start, isDateOnly(parsed) ? start + DAY : start + 1];
+  } catch (error) {
+    throw new Error(`Invalid date for ${field}: ${error.message}`);
+  }
+}
+
+function parseField(word: string): QueryNode | undefined {
+  const match = /^([a-z]+)(>=|<=|!=|:|=|>|<)(.*)$/i.exec(word);
+  if (!match) return undefined;
+
+  const field = FIELD_ALIASES[match[1].toLowerCase()] || match[1].toLowerCase();
+  const op = match[2] as Operator;
+  const value = match[3];
+
+  if (!FIELDS.includes(field)) {
+    throw new Error(`Unknown field "${match[1]}". Fields: ${FIELDS.join(', ')}`);
+  }
+  if (!value) {
+    throw new Error(`Missing value for "${match[1]}${op}"`);
+  }
+  if (['>', '>=', '<', '<='].includes(op) && !ORDERED_FIELDS.includes(field)) {
+    throw new Error(`"${op}" only works with ${ORDERED_FIELDS.join(', ')}`);
+  }
+
+  const lower = value.toLowerCase();
+  if (field === 'priority' && !PRIORITY_ORDER.includes(lower)) {
+    throw new Error(`Invalid priority "${value}". Must be one of: ${PRIORITY_ORDER.join(', ')}`);
+  }
+  if (field === 'status' && !STATUS_VALUES.includes(lower)) {
+    throw new Error(`Invalid status "${value}". Must be one of: ${STATUS_VALUES.join(', ')}`);
+  }
+  if (field === 'is' && !IS_VALUES.includes(lower)) {
+    throw new Error(`Invalid value "${value}" for is:. Must be one of: ${IS_VALUES.join(', ')}`);
+  }
+
+  const node: QueryNode = { type: 'field', field, op, value };
+  if (DATE_FIELDS.includes(field) && lower !== 'none') {
+    node.time = parseDateValue(field, value);
+  }
+  return node;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) throw new Error('Query is empty');
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) throw new Error(`Unexpected "${token.value}"`);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.kind === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private parseOr(): QueryNode {
+    let node = this.parseAnd();
+    while (this.isKeyword(this.peek(), 'OR')) {
+      this.position++;
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): QueryNode {
+    let node = this.parseNot();
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.kind === 'rparen' || this.isKeyword(token, 'OR')) return node;
+      if (this.isKeyword(token, 'AND')) this.position++;
+      node = { type: 'and', left: node, right: this.parseNot() };
+    }
+  }
+
+  private parseNot(): QueryNode {
+    const token = this.peek();
+    if (this.isKeyword(token, 'NOT')) {
+      this.position++;
+      return { type: 'not', node: this.parseNot() };
+    }
+    if (token?.kind === 'word' && token.value.startsWith('-')) {
+      // "-tag:x" negates the term, a lone "-" negates what follows ("-(a OR b)")
+      if (token.value.length > 1) {
+        this.tokens[this.position] = { kind: 'word', value: token.value.slice(1) };
+      } else {
+        this.position++;
+      }
+      return { type: 'not', node: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.position++];
+
+    if (!token) throw new Error('Query ends unexpectedly');
+
+    if (token.kind === 'lparen') {
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') throw new Error('Missing ")"');
+      this.position++;
+      return node;
+    }
+
+    if (token.kind === 'rparen') throw new Error('Unexpected ")"');
+    if (token.kind === 'phrase') return { type: 'text', value: token.value };
+
+    if (['AND', 'OR', 'NOT'].includes(token.value.toUpperCase())) {
+      throw new Error(`Unexpected "${token.value}"`);
+    }
+
+    return parseField(token.value) || { type: 'text', value: token.value };
+  }
+}
+
+/**
+ * Parse a query expression. Throws with a message suitable for showing
+ * to the user.
+ */
+export function parseQuery(input: string): QueryNode {
+  return new Parser(tokenize(input)).parse();
+}
+
+function compare(a: number, b: number, op: Operator): boolean {
+  switch (op) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '!=': return a !== b;
+    default: return a === b;
+  }
+}
+
+function taskDate(task: Task, field: string): string | undefined {
+  switch (field) {
+    case 'due': return task.due;
+    case 'created': return task.createdAt;
+    case 'updated': return task.updatedAt;
+    case 'completed': return task.completedAt;
+  }
+}
+
+function matchesField(node: Extract<QueryNode, { type: 'field' }>, task: Task, context: QueryContext): boolean {
+  const value = node.value.toLowerCase();
+  const equals = (actual: string | undefined) => {
+    const matched = value === 'none' ? !actual : (actual || '').toLowerCase() === value;
+    return node.op === '!=' ? !matched : matched;
+  };
+
+  switch (node.field) {
+    case 'status':
+      return equals(task.status);
+    case 'priority':
+      return compare(PRIORITY_ORDER.indexOf(task.priority), PRIORITY_ORDER.indexOf(value), node.op);
+    case 'tag': {
+      const matched = value === 'none' ? task.tags.length === 0 : task.tags.some(tag => tag.toLowerCase() === value);
+      return node.op === '!=' ? !matched : matched;
+    }
+    case 'assignee':
+      return equals(task.assignee);
+    case 'id':
+      return equals(task.id);
+    case 'parent':
+      return equals(task.parentId);
+    case 'title':
+    case 'description': {
+      const text = (task[node.field] || '').toLowerCase();
+      const matched = node.op === '=' ? text === value : text.includes(value);
+      return node.op === '!=' ? !text.includes(value) : matched;
+    }
+    case 'is': {
+      const checks = {
+        open: () => isOpenTask(task),
+        closed: () => !isOpenTask(task),
+        overdue: () => isOpenTask(task) && isPastDue(task.due),
+        blocked: () => isBlocked(task, context.tasksById),
+        subtask: () => Boolean(task.parentId),
+        repeating: () => Boolean(task.repeat)
+      };
+      const matched = checks[value]();
+      return node.op === '!=' ? !matched : matched;
+    }
+  }
+
+  // Date fields
+  const date = taskDate(task, node.field);
+  if (value === 'none') {
+    return node.op === '!=' ? Boolean(date) : !date;
+  }
+  const time = dueTime(date);
+  if (time === Infinity) return false;
+  const [start, end] = node.time;
+  switch (node.op) {
+    case '>': return time >= end;
+    case '>=': return time >= start;
+    case '<': return time < start;
+    case '<=': return time < end;
+    case '!=': return time < start || time >= end;
+    default: return time >= start && time < end;
+  }
+}
+
+export function matchesQuery(node: QueryNode, task: Task, context: QueryContext): boolean {
+  switch (node.type) {
+    case 'and':
+      return matchesQuery(node.left, task, context) && matchesQuery(node.right, task, context);
+    case 'or':
+      return matchesQuery(node.left, task, context) || matchesQuery(node.right, task, context);
+    case 'not':
+      return !matchesQuery(node.node, task, context);
+    case 'text': {
+      const value = node.value.toLowerCase();
+      return task.title.toLowerCase().includes(value) || (task.description || '').toLowerCase().includes(value);
+    }
+    case 'field':
+      return matchesField(node, task, context);
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeRecurrence, formatRecurrence, nextDueDate, nextOccurrence, parseRecurrence } from './recurrence';
+
+describe('parseRecurrence', () => {
+  it('expands presets', () => {
+    assert.deepEqual(parseRecurrence('weekly'), { freq: 'WEEKLY', interval: 1 });
+    assert.deepEqual(parseRecurrence('Weekdays'), { freq: 'WEEKLY', interval: 1, byDay: [1, 2, 3, 4, 5] });
+  });
+
+  it('accepts RRULE strings with or without the prefix, in any case', () => {
+    const expected = { freq: 'WEEKLY', interval: 2, byDay: [1, 3] };
+    assert.deepEqual(parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE'), expected);
+    assert.deepEqual(parseRecurrence('rrule:freq=weekly;interval=2;byday=mo,we'), expected);
+  });
+
+  it('reads a date-only UNTIL as the end of that local day', () => {
+    const rule = parseRecurrence('FREQ=DAILY;UNTIL=20240131');
+    assert.deepEqual(rule.until, new Date(2024, 0, 31, 23, 59, 59));
+  });
+
+  it('reads a UTC UNTIL', () => {
+    const rule = parseRecurrence('FREQ=DAILY;UNTIL=20240131T120000Z');
+    assert.equal(rule.until.toISOString(), '2024-01-31T12:00:00.000Z');
+  });
+
+  it('rejects invalid rules', () => {
+    assert.throws(() => parseRecurrence('fortnightly'), /Use daily, weekly, monthly, yearly, weekdays or an RRULE/);
+    assert.throws(() => parseRecurrence('FREQ=HOURLY'), /FREQ must be one of/);
+    assert.throws(() => parseRecurrence('FREQ=DAILY;INTERVAL=0'), /INTERVAL must be a positive integer/);
+    assert.throws(() => parseRecurrence('FREQ=DAILY;COUNT=1.5'), /COUNT must be a positive integer/);
+    assert.throws(() => parseRecurrence('FREQ=DAILY;UNTIL=2024-01-31'), /Invalid UNTIL/);
+    assert.throws(() => parseRecurrence('FREQ=WEEKLY;BYDAY=XX'), /Invalid BYDAY value "XX"/);
+    assert.throws(() => parseRecurrence('FREQ=MONTHLY;BYDAY=MO'), /only supported with FREQ=WEEKLY/);
+    assert.throws(() => parseRecurrence('FREQ=DAILY;COUNT=3;UNTIL=20240131'), /cannot be used together/);
+    assert.throws(() => parseRecurrence('FREQ=DAILY;BYMONTH=1'), /Unsupported RRULE part "BYMONTH"/);
+    assert.throws(() => parseRecurrence('FREQ=DAILY;INTERVAL'), /Invalid repeat rule/);
+  });
+});
+
+describe('formatRecurrence', () => {
+  it('writes the canonical form, sorting days and dropping the default interval', () => {
+    assert.equal(formatRecurrence(parseRecurrence('freq=weekly;interval=1;byday=fr,mo')), 'FREQ=WEEKLY;BYDAY=MO,FR');
+    assert.equal(formatRecurrence(parseRecurrence('weekdays')), 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  });
+
+  it('round-trips through parseRecurrence', () => {
+    for (const source of [
+      'FREQ=DAILY',
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE',
+      'FREQ=MONTHLY;COUNT=6',
+      'FREQ=YEARLY;UNTIL=20300101T120000Z'
+    ]) {
+      assert.equal(formatRecurrence(parseRecurrence(source)), source);
+    }
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarizes interval, days and count', () => {
+    assert.equal(describeRecurrence(parseRecurrence('daily')), 'every day');
+    assert.equal(describeRecurrence(parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;COUNT=5')), 'every 2 weeks on Mon, Wed (5 times)');
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('adds the interval for daily and plain weekly rules', () => {
+    assert.deepEqual(nextOccurrence(parseRecurrence('FREQ=DAILY;INTERVAL=3'), new Date(2024, 1, 27)), new Date(2024, 2, 1));
+    assert.deepEqual(nextOccurrence(parseRecurrence('weekly'), new Date(2024, 0, 29)), new Date(2024, 1, 5));
+  });
+
+  it('walks BYDAY within the week, then skips INTERVAL weeks', () => {
+    const rule = parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+    const monday = new Date(2024, 0, 1);
+    const wednesday = nextOccurrence(rule, monday);
+    assert.deepEqual(wednesday, new Date(2024, 0, 3));
+    assert.deepEqual(nextOccurrence(rule, wednesday), new Date(2024, 0, 15));
+  });
+
+  it('treats Sunday as the end of the week', () => {
+    const rule = parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,SU');
+    assert.deepEqual(nextOccurrence(rule, new Date(2024, 0, 1)), new Date(2024, 0, 7));
+    assert.deepEqual(nextOccurrence(rule, new Date(2024, 0, 7)), new Date(2024, 0, 15));
+  });
+
+  it('moves weekdays from Friday to Monday', () => {
+    assert.deepEqual(nextOccurrence(parseRecurrence('weekdays'), new Date(2024, 0, 5)), new Date(2024, 0, 8));
+  });
+
+  it('clamps monthly rules to short months without drifting off the anchor day', () => {
+    const rule = parseRecurrence('monthly');
+    const dates = [new Date(2023, 0, 31)];
+    for (let i = 0; i < 4; i++) {
+      dates.push(nextOccurrence(rule, dates[dates.length - 1], 1, 31));
+    }
+    assert.deepEqual(dates.map(date => date.getDate()), [31, 28, 31, 30, 31]);
+    assert.deepEqual(dates[4], new Date(2023, 4, 31));
+  });
+
+  it('keeps Feb 29 yearly series on leap days when they come round', () => {
+    const rule = parseRecurrence('yearly');
+    let date = new Date(2024, 1, 29);
+    const seen = [];
+    for (let i = 0; i < 4; i++) {
+      date = nextOccurrence(rule, date, 1, 29);
+      seen.push([date.getFullYear(), date.getMonth(), date.getDate()]);
+    }
+    assert.deepEqual(seen, [[2025, 1, 28], [2026, 1, 28], [2027, 1, 28], [2028, 1, 29]]);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    const rule = parseRecurrence('FREQ=DAILY;COUNT=3');
+    assert.ok(nextOccurrence(rule, new Date(2024, 0, 1), 2));
+    assert.equal(nextOccurrence(rule, new Date(2024, 0, 1), 3), undefined);
+  });
+
+  it('stops after UNTIL, counting the whole final day', () => {
+    const rule = parseRecurrence('FREQ=DAILY;UNTIL=20240103');
+    assert.deepEqual(nextOccurrence(rule, new Date(2024, 0, 2)), new Date(2024, 0, 3));
+    assert.equal(nextOccurrence(rule, new Date(2024, 0, 3)), undefined);
+  });
+});
+
+describe('nextDueDate', () => {
+  it('keeps date-only dues date-only and uses the given anchor day', () => {
+    const rule = parseRecurrence('monthly');
+    assert.equal(nextDueDate(rule, '2024-01-31'), '2024-02-29');
+    assert.equal(nextDueDate(rule, '2024-02-29', 1, 31), '2024-03-31');
+    assert.equal(nextDueDate(rule, '2024-02-29'), '2024-03-29');
+  });
+
+  it('keeps timestamps as timestamps at the same local time', () => {
+    const due = new Date(2024, 0, 15, 9, 30).toISOString();
+    assert.equal(nextDueDate(parseRecurrence('daily'), due), new Date(2024, 0, 16, 9, 30).toISOString());
+  });
+
+  it('repeats from now when there is no due date', () => {
+    assert.equal(nextDueDate(parseRecurrence('weekly'), undefined, 1, undefined, new Date(2024, 0, 1, 15)), '2024-01-08');
+  });
+
+  it('returns undefined once the series has ended', () => {
+    assert.equal(nextDueDate(parseRecurrence('FREQ=DAILY;COUNT=2'), '2024-01-01', 2), undefined);
+  });
+});
@@ -0,0 +1,225 @@
+import { formatDate } from './config';
+import { toDateString } from './dates';
+
+/**
+ * Recurrence rules for repeating tasks: a small subset of RFC 5545 RRULE
+ * (FREQ, INTERVAL, BYDAY, COUNT, UNTIL) plus a few named presets.
+ */
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: number[]; // 0 = Sunday, like Date#getDay()
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const REPEAT_PRESETS: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  monthly: 'FREQ=MONTHLY',
+  yearly: 'FREQ=YEARLY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+};
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL "${value}". Use YYYYMMDD or YYYYMMDDTHHMMSSZ`);
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) {
+    // A date-only UNTIL includes that whole day
+    return new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59);
+  }
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a preset name or an RRULE string (with or without the "RRULE:"
+ * prefix). Throws with a message suitable for showing to the user.
+ */
+export function parseRecurrence(input: string): RecurrenceRule {
+  const value = input.trim();
+  const source = REPEAT_PRESETS[value.toLowerCase()] || value.replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of source.split(';').filter(Boolean)) {
+    const [name, partValue] = part.split('=');
+    if (!name || partValue === undefined) {
+      throw new Error(`Invalid repeat rule "${input}". Use ${Object.keys(REPEAT_PRESETS).join(', ')} or an RRULE like FREQ=WEEKLY;BYDAY=MO`);
+    }
+    parts.set(name.trim().toUpperCase(), partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Invalid repeat rule "${input}". FREQ must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(partValue);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new Error('INTERVAL must be a positive integer');
+        }
+        break;
+      case 'COUNT':
+        rule.count = Number(partValue);
+        if (!Number.isInteger(rule.count) || rule.count < 1) {
+          throw new Error('COUNT must be a positive integer');
+        }
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map(day => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index === -1) {
+            throw new Error(`Invalid BYDAY value "${day}". Use ${WEEKDAYS.join(', ')}`);
+          }
+          return index;
+        });
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${name}". Supported: FREQ, INTERVAL, BYDAY, COUNT, UNTIL`);
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new Error('COUNT and UNTIL cannot be used together');
+  }
+
+  if (rule.byDay && rule.freq !== 'WEEKLY') {
+    throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+  }
+
+  return rule;
+}
+
+/**
+ * Canonical RRULE string, as stored on the task.
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    rule.interval > 1 ? `INTERVAL=${rule.interval}` : '',
+    rule.byDay ? `BYDAY=${[...rule.byDay].sort().map(day => WEEKDAYS[day]).join(',')}` : '',
+    rule.count ? `COUNT=${rule.count}` : '',
+    rule.until ? `UNTIL=${formatUntil(rule.until)}` : ''
+  ].filter(Boolean).join(';');
+}
+
+/**
+ * Human-readable summary, e.g. "every 2 weeks on Mon, Wed (5 times)".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+  const unit = units[rule.freq];
+  let text = rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+  if (rule.byDay) {
+    text += ` on ${[...rule.byDay].sort().map(day => DAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.count) text += ` (${rule.count} times)`;
+  if (rule.until) text += ` (until ${formatDate(rule.until, false)})`;
+  return text;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// `day` is the series' anchor day, clamped to the last day of shorter
+// months (Jan 31 -> Feb 28 -> Mar 31)
+function addMonths(date: Date, months: number, day = date.getDate()): Date {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+// Weeks start on Monday, as RRULE's default WKST
+function weekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(start, -((start.getDay() + 6) % 7));
+}
+
+/**
+ * The occurrence after `from`, or undefined when the rule has run out.
+ * `occurrence` is the 1-based position of `from` in its series, and
+ * `anchorDay` the day of month monthly and yearly series fall on.
+ */
+export function nextOccurrence(rule: RecurrenceRule, from: Date, occurrence = 1, anchorDay = from.getDate()): Date | undefined {
+  if (rule.count && occurrence >= rule.count) return undefined;
+
+  let next: Date;
+  switch (rule.freq) {
+    case 'DAILY':
+      next = addDays(from, rule.interval);
+      break;
+    case 'WEEKLY':
+      if (rule.byDay) {
+        const fromWeek = weekStart(from).getTime();
+        for (let days = 1; days <= 7 * rule.interval + 7; days++) {
+          const candidate = addDays(from, days);
+          const weeks = Math.round((weekStart(candidate).getTime() - fromWeek) / (7 * 24 * 60 * 60 * 1000));
+          if (weeks % rule.interval === 0 && rule.byDay.includes(candidate.getDay())) {
+            next = candidate;
+            break;
+          }
+        }
+      } else {
+        next = addDays(from, 7 * rule.interval);
+      }
+      break;
+    case 'MONTHLY':
+      next = addMonths(from, rule.interval, anchorDay);
+      break;
+    case 'YEARLY':
+      next = addMonths(from, 12 * rule.interval, anchorDay);
+      break;
+  }
+
+  if (rule.until && next > rule.until) return undefined;
+  return next;
+}
+
+/**
+ * Due date of the occurrence after one due on `due`. Tasks without a due
+ * date repeat from `now`. Date-only values stay date-only. `anchorDay`
+ * defaults to the day of `due`.
+ */
+export function nextDueDate(
+  rule: RecurrenceRule,
+  due: string | undefined,
+  occurrence = 1,
+  anchorDay?: number,
+  now = new Date()
+): string | undefined {
+  const dateOnly = !due || /^\d{4}-\d{2}-\d{2}$/.test(due);
+  const from = !due ? now : dateOnly ? new Date(`${due}T00:00:00`) : new Date(due);
+  const next = nextOccurrence(rule, from, occurrence, anchorDay ?? from.getDate());
+  if (!next) return undefined;
+  return dateOnly ? toDateString(next) : next.toISOString();
+}
@@ -0,0 +1,56 @@
+import type { ChecklistItem, Task } from '../types/index';
+import { isOpenTask } from './dependencies';
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+export function subtasksOf(task: Task, tasks: Task[]): Task[] {
+  return tasks.filter(t => t.parentId === task.id);
+}
+
+/**
+ * Subtasks of a task that is being deleted, turned into top-level tasks.
+ */
+export function detachSubtasks(task: Task, tasks: Task[]): Task[] {
+  return subtasksOf(task, tasks).map(({ parentId, ...subtask }) => ({
+    ...subtask,
+    updatedAt: new Date().toISOString()
+  }));
+}
+
+/**
+ * Progress over a task's direct subtasks and checklist items. Cancelled
+ * subtasks count as done.
+ */
+export function taskProgress(task: Task, tasks: Task[]): TaskProgress {
+  const subtasks = subtasksOf(task, tasks);
+  const checklist = task.checklist || [];
+  return {
+    done: subtasks.filter(t => !isOpenTask(t)).length + checklist.filter(item => item.done).length,
+    total: subtasks.length + checklist.length
+  };
+}
+
+export function formatProgress(progress: TaskProgress): string {
+  return progress.total > 0 ? `${progress.done}/${progress.total}` : '-';
+}
+
+/**
+ * What still stands between `task` and completion: open subtasks (at any
+ * depth) and unchecked checklist items.
+ */
+export function unfinishedWork(task: Task, tasks: Task[]): { subtasks: Task[]; items: ChecklistItem[] } {
+  const subtasks: Task[] = [];
+  const pending = subtasksOf(task, tasks);
+  while (pending.length > 0) {
+    const subtask = pending.shift();
+    if (isOpenTask(subtask)) subtasks.push(subtask);
+    pending.push(...subtasksOf(subtask, tasks));
+  }
+  return {
+    subtasks,
+    items: (task.checklist || []).filter(item => !item.done)
+  };
+}
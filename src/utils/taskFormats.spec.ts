@@ -0,0 +1,228 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildImportedTask,
+  formatFromPath,
+  parseFieldMap,
+  parseIcs,
+  parseTaskCsv,
+  parseTaskJson,
+  parseTodoTxt,
+  tasksToCsv,
+  tasksToIcs,
+  tasksToTodoTxt
+} from './taskFormats';
+import type { Task } from '../types/index';
+
+const now = new Date(2024, 0, 10, 15, 0);
+
+function task(fields: Partial<Task>): Task {
+  return {
+    id: 'task1',
+    title: 'Untitled',
+    description: '',
+    priority: 'medium',
+    status: 'pending',
+    tags: [],
+    createdAt: new Date(2024, 0, 1, 9).toISOString(),
+    updatedAt: new Date(2024, 0, 1, 9).toISOString(),
+    ...fields
+  };
+}
+
+const tasks = [
+  task({
+    id: 't1',
+    title: 'Fix login, then "ship"',
+    description: 'Two lines;\nwith a comma, and a \\ backslash',
+    priority: 'urgent',
+    due: '2024-01-15',
+    tags: ['backend', 'auth'],
+    assignee: 'u1',
+    repeat: 'FREQ=WEEKLY;BYDAY=MO'
+  }),
+  task({ id: 't2', title: 'Call the bank', priority: 'high', status: 'in-progress', due: new Date(2024, 0, 12, 9, 30).toISOString() }),
+  task({ id: 't3', title: 'Old chore', priority: 'low', status: 'completed', tags: ['home'], completedAt: new Date(2024, 0, 8, 17).toISOString() }),
+  task({ id: 't4', title: 'Dropped idea', status: 'cancelled' })
+];
+
+// The fields an import can carry, from a task built out of an import record
+function imported(task: Task) {
+  const { id, createdAt, updatedAt, ...fields } = task;
+  return fields;
+}
+
+describe('formatFromPath', () => {
+  it('maps extensions to formats, ignoring case', () => {
+    assert.equal(formatFromPath('tasks.CSV'), 'csv');
+    assert.equal(formatFromPath('notes.markdown'), 'md');
+    assert.equal(formatFromPath('todo.txt'), 'todotxt');
+    assert.equal(formatFromPath('tasks.xlsx'), undefined);
+  });
+});
+
+describe('parseFieldMap', () => {
+  it('maps columns to fields, allowing = in column names', () => {
+    assert.deepEqual(parseFieldMap('Task Name=title, Deadline=due,a=b=tags'), { 'Task Name': 'title', Deadline: 'due', 'a=b': 'tags' });
+  });
+
+  it('rejects malformed pairs and unknown fields', () => {
+    assert.throws(() => parseFieldMap('title'), /Invalid mapping "title". Use column=field/);
+    assert.throws(() => parseFieldMap('=title'), /Invalid mapping/);
+    assert.throws(() => parseFieldMap('Owner=owner'), /Unknown task field "owner"/);
+  });
+});
+
+describe('CSV import', () => {
+  it('maps headers by name or --map and reports ignored columns', () => {
+    const { records, ignored } = parseTaskCsv('Name,PRIORITY,Notes,Deadline\n Buy milk ,high,,tomorrow\n', { Name: 'title', Deadline: 'due' });
+    assert.deepEqual(records, [{ title: 'Buy milk', priority: 'high', due: 'tomorrow' }]);
+    assert.deepEqual(ignored, ['Notes']);
+  });
+
+  it('round-trips tasksToCsv', () => {
+    const { records, ignored } = parseTaskCsv(tasksToCsv(tasks));
+    assert.deepEqual(ignored, ['id', 'createdAt']);
+    assert.deepEqual(records.map(record => imported(buildImportedTask(record, 'medium', now))), tasks.map(imported));
+  });
+});
+
+describe('JSON import', () => {
+  it('joins arrays, drops empty values and reports ignored keys', () => {
+    const { records, ignored } = parseTaskJson('[{"title":"A","tags":["x","y"],"due":null,"id":"t1"}]');
+    assert.deepEqual(records, [{ title: 'A', tags: 'x,y' }]);
+    assert.deepEqual(ignored, ['id']);
+  });
+
+  it('requires an array', () => {
+    assert.throws(() => parseTaskJson('{"title":"A"}'), /Expected a JSON array of tasks/);
+  });
+});
+
+describe('todo.txt', () => {
+  it('writes priorities as letters and keeps them on completed tasks', () => {
+    assert.deepEqual(tasksToTodoTxt(tasks).split('\n'), [
+      '(A) 2024-01-01 Fix login, then "ship" +backend +auth due:2024-01-15',
+      '(B) 2024-01-01 Call the bank due:2024-01-12 status:in-progress',
+      'x 2024-01-08 2024-01-01 Old chore +home pri:D',
+      '(C) 2024-01-01 Dropped idea status:cancelled'
+    ]);
+  });
+
+  it('reads completion, priority, projects, contexts and extensions', () => {
+    assert.deepEqual(parseTodoTxt('x 2024-01-08 2024-01-01 Email Bob +work @phone due:2024-01-09 pri:B url:https://x.test\n\n(Z) Someday'), [
+      {
+        status: 'completed',
+        completedAt: '2024-01-08',
+        title: 'Email Bob url:https://x.test',
+        due: '2024-01-09',
+        priority: 'high',
+        tags: 'work,phone'
+      },
+      { priority: 'low', title: 'Someday' }
+    ]);
+  });
+
+  it('round-trips tasksToTodoTxt, keeping calendar dates only', () => {
+    const records = parseTodoTxt(tasksToTodoTxt(tasks));
+    const built = records.map(record => buildImportedTask(record, 'medium', now));
+    assert.deepEqual(built.map(item => [item.title, item.priority, item.status, item.due, item.tags]), [
+      ['Fix login, then "ship"', 'urgent', 'pending', '2024-01-15', ['backend', 'auth']],
+      ['Call the bank', 'high', 'in-progress', '2024-01-12', []],
+      ['Old chore', 'low', 'completed', undefined, ['home']],
+      ['Dropped idea', 'medium', 'cancelled', undefined, []]
+    ]);
+    assert.equal(built[2].completedAt, new Date(2024, 0, 8).toISOString());
+  });
+});
+
+describe('iCalendar', () => {
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const ics = tasksToIcs([task({ title: 'é'.repeat(60) })], 'vtodo', now);
+    const lines = ics.split('\r\n');
+    assert.ok(lines.every(line => Buffer.byteLength(line) <= 75));
+    assert.ok(lines.some(line => line.startsWith(' é')));
+    assert.equal(parseIcs(ics)[0].title, 'é'.repeat(60));
+  });
+
+  it('writes calendar dates as DATE values and timestamps in UTC', () => {
+    const ics = tasksToIcs(tasks, 'vtodo', now);
+    assert.match(ics, /\r\nDUE;VALUE=DATE:20240115\r\n/);
+    assert.match(ics, new RegExp(`\r\nDUE:${new Date(2024, 0, 12, 9, 30).toISOString().replace(/[-:]|\.000/g, '')}\r\n`));
+  });
+
+  it('exports only dated tasks as events', () => {
+    const records = parseIcs(tasksToIcs(tasks, 'vevent', now));
+    assert.deepEqual(records.map(record => [record.title, record.due]), [
+      ['Fix login, then "ship"', '2024-01-15'],
+      ['Call the bank', new Date(2024, 0, 12, 9, 30).toISOString().replace(/\.000Z$/, 'Z')]
+    ]);
+  });
+
+  it('reads priorities, statuses, escaped categories and RRULEs, ignoring other components', () => {
+    const records = parseIcs([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VTIMEZONE',
+      'SUMMARY:not a task',
+      'END:VTIMEZONE',
+      'BEGIN:VTODO',
+      'SUMMARY:Pay rent',
+      'DTSTART:20240101',
+      'DUE;TZID=Europe/Paris:20240201T090000',
+      'PRIORITY:2',
+      'STATUS:NEEDS-ACTION',
+      'CATEGORIES:home,bills\\, monthly',
+      'CATEGORIES:money',
+      'RRULE:FREQ=MONTHLY',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Unranked',
+      'PRIORITY:0',
+      'END:VTODO',
+      'END:VCALENDAR'
+    ].join('\n'));
+    assert.deepEqual(records, [
+      {
+        title: 'Pay rent',
+        due: '2024-02-01T09:00:00',
+        priority: 'high',
+        status: 'pending',
+        tags: 'home,bills, monthly,money',
+        repeat: 'FREQ=MONTHLY'
+      },
+      { title: 'Unranked' }
+    ]);
+  });
+
+  it('round-trips tasksToIcs', () => {
+    const records = parseIcs(tasksToIcs(tasks, 'vtodo', now));
+    const built = records.map(record => imported(buildImportedTask(record, 'medium', now)));
+    // ICS carries no assignee or repeat rule
+    assert.deepEqual(built, tasks.map(item => {
+      const { assignee, repeat, ...fields } = imported(item);
+      return fields;
+    }));
+  });
+});
+
+describe('buildImportedTask', () => {
+  it('validates fields the way task add does', () => {
+    assert.throws(() => buildImportedTask({ title: '  ' }, 'medium', now), /Title is required/);
+    assert.throws(() => buildImportedTask({ title: 'A', priority: 'critical' }, 'medium', now), /Invalid priority "critical"/);
+    assert.throws(() => buildImportedTask({ title: 'A', status: 'done' }, 'medium', now), /Invalid status "done"/);
+    assert.throws(() => buildImportedTask({ title: 'A', due: 'someday' }, 'medium', now), /Could not understand due date/);
+  });
+
+  it('applies defaults, resolves relative dates and dedupes tags', () => {
+    const built = buildImportedTask({ title: ' A ', due: 'tomorrow', tags: 'x, y,x,,', status: 'completed' }, 'low', now);
+    assert.deepEqual(imported(built), {
+      title: 'A',
+      description: '',
+      priority: 'low',
+      status: 'completed',
+      due: '2024-01-11',
+      tags: ['x', 'y'],
+      completedAt: now.toISOString()
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import path from 'path';
+import { parseCsv, toCsv } from './csv';
+import { isDateOnly, parseDueDate, toDateString } from './dates';
+import { PRIORITIES, STATUSES, generateId, parseRepeatOption } from './tasks';
+import type { Task } from '../types/index';
+
+/**
+ * Task import and export formats: CSV, Markdown, todo.txt and iCalendar.
+ * Importers only extract raw field values; `buildImportedTask` validates
+ * them the way `task add` validates its options.
+ */
+
+export const EXPORT_FORMATS = ['csv', 'md', 'todotxt', 'ics'];
+export const IMPORT_FORMATS = ['csv', 'json', 'todotxt', 'ics'];
+export const ICS_TYPES = ['vtodo', 'vevent'];
+
+// Task fields an import can set; ids, links and timestamps are assigned on import
+export const IMPORT_FIELDS = ['title', 'description', 'priority', 'status', 'due', 'tags', 'assignee', 'repeat', 'completedAt'];
+
+// Raw values keyed by task field; tags are comma-separated
+export type ImportRecord = Record<string, string>;
+
+const EXTENSION_FORMATS: Record<string, string> = {
+  '.csv': 'csv',
+  '.json': 'json',
+  '.md': 'md',
+  '.markdown': 'md',
+  '.txt': 'todotxt',
+  '.ics': 'ics'
+};
+
+const CSV_COLUMNS = ['id', 'title', 'description', 'status', 'priority', 'due', 'tags', 'assignee', 'repeat', 'createdAt', 'completedAt'];
+
+// todo.txt priorities run from (A) down; medium is (C) so (A)-(D) round-trip
+const TODOTXT_PRIORITIES: Record<Task['priority'], string> = { urgent: 'A', high: 'B', medium: 'C', low: 'D' };
+
+// RFC 5545 PRIORITY: 1-4 high, 5 medium, 6-9 low
+const ICS_PRIORITIES: Record<Task['priority'], number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+
+const ICS_STATUSES: Record<Task['status'], string> = {
+  pending: 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED'
+};
+
+export function formatFromPath(file: string): string | undefined {
+  return EXTENSION_FORMATS[path.extname(file).toLowerCase()];
+}
+
+/**
+ * Parse a --map value ("Task Name=title,Deadline=due") into column -> field.
+ */
+export function parseFieldMap(value: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  value.split(',').filter(pair => pair.trim()).forEach(pair => {
+    const index = pair.lastIndexOf('=');
+    const column = pair.slice(0, index).trim();
+    const field = pair.slice(index + 1).trim();
+    if (index < 1 || !column) {
+      throw new Error(`Invalid mapping "${pair.trim()}". Use column=field`);
+    }
+    if (!IMPORT_FIELDS.includes(field)) {
+      throw new Error(`Unknown task field "${field}". Must be one of: ${IMPORT_FIELDS.join(', ')}`);
+    }
+    map[column] = field;
+  });
+  return map;
+}
+
+// Explicit mappings win; otherwise a column named like a field (any case) maps to it
+function fieldFor(column: string, map: Record<string, string>): string | undefined {
+  return map[column] || IMPORT_FIELDS.find(field => field.toLowerCase() === column.trim().toLowerCase());
+}
+
+// Local calendar date of a stored due value
+function dueDate(due: string): string {
+  return isDateOnly(due) ? due : toDateString(new Date(due));
+}
+
+// ---- CSV ----
+
+export function tasksToCsv(tasks: Task[]): string {
+  return toCsv([
+    CSV_COLUMNS,
+    ...tasks.map(task => CSV_COLUMNS.map(column => column === 'tags' ? task.tags.join(',') : task[column]))
+  ]);
+}
+
+/**
+ * Records from a CSV file with a header row. Returns the columns that map
+ * to no task field so the preview can mention them.
+ */
+export function parseTaskCsv(text: string, map: Record<string, string> = {}): { records: ImportRecord[]; ignored: string[] } {
+  const [header = [], ...rows] = parseCsv(text);
+  const fields = header.map(column => fieldFor(column, map));
+  const records = rows.map(row => {
+    const record: ImportRecord = {};
+    row.forEach((value, index) => {
+      if (fields[index] && value.trim()) record[fields[index]] = value.trim();
+    });
+    return record;
+  });
+  return { records, ignored: header.filter((_, index) => !fields[index]) };
+}
+
+// ---- JSON ----
+
+/**
+ * Records from a JSON array of objects, e.g. `task list --format json`.
+ */
+export function parseTaskJson(text: string, map: Record<string, string> = {}): { records: ImportRecord[]; ignored: string[] } {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error('Expected a JSON array of tasks');
+  }
+
+  const ignored = new Set<string>();
+  const records = data.map(item => {
+    const record: ImportRecord = {};
+    Object.entries(item || {}).forEach(([key, value]) => {
+      const field = fieldFor(key, map);
+      if (!field) {
+        ignored.add(key);
+      } else if (value !== undefined && value !== null && value !== '') {
+        record[field] = Array.isArray(value) ? value.join(',') : String(value);
+      }
+    });
+    return record;
+  });
+  return { records, ignored: [...ignored] };
+}
+
+// ---- Markdown ----
+
+export function tasksToMarkdown(tasks: Task[], now = new Date()): string {
+  const lines = ['# Tasks', '', `Exported ${toDateString(now)}, ${tasks.length} task(s).`];
+
+  STATUSES.forEach(status => {
+    const group = tasks.filter(task => task.status === status);
+    if (group.length === 0) return;
+
+    lines.push('', `## ${status.charAt(0).toUpperCase() + status.slice(1)}`, '');
+    group.forEach(task => {
+      const details = [task.priority, ...(task.due ? [`due ${dueDate(task.due)}`] : [])].join(', ');
+      const tags = task.tags.map(tag => ` #${tag.replace(/\s+/g, '-')}`).join('');
+      lines.push(`- [${status === 'completed' ? 'x' : ' '}] ${task.title} (${details})${tags} \`${task.id}\``);
+      if (task.description) {
+        task.description.split('\n').forEach(line => lines.push(`  > ${line}`));
+      }
+    });
+  });
+
+  return lines.join('\n');
+}
+
+// ---- todo.txt ----
+
+export function tasksToTodoTxt(tasks: Task[]): string {
+  return tasks.map(task => {
+    const parts: string[] = [];
+    if (task.status === 'completed') {
+      parts.push('x');
+      if (task.completedAt) parts.push(toDateString(new Date(task.completedAt)));
+    } else {
+      parts.push(`(${TODOTXT_PRIORITIES[task.priority]})`);
+    }
+    parts.push(toDateString(new Date(task.createdAt)));
+    parts.push(task.title.replace(/\s+/g, ' '));
+    task.tags.forEach(tag => parts.push(`+${tag.replace(/\s+/g, '-')}`));
+    if (task.due) parts.push(`due:${dueDate(task.due)}`);
+    if (task.status === 'completed') parts.push(`pri:${TODOTXT_PRIORITIES[task.priority]}`);
+    if (task.status === 'in-progress' || task.status === 'cancelled') parts.push(`status:${task.status}`);
+    return parts.join(' ');
+  }).join('\n');
+}
+
+function todoTxtPriority(letter: string): string {
+  const priority = Object.entries(TODOTXT_PRIORITIES).find(([, value]) => value === letter.toUpperCase());
+  return priority ? priority[0] : 'low';
+}
+
+/**
+ * One record per non-empty line. +projects and @contexts become tags;
+ * the due:, pri: and status: extensions are understood.
+ */
+export function parseTodoTxt(text: string): ImportRecord[] {
+  return text.split(/\r?\n/).filter(line => line.trim()).map(line => {
+    const record: ImportRecord = {};
+    let rest = line.trim();
+
+    const done = /^x (\d{4}-\d{2}-\d{2} )?/.exec(rest);
+    if (done) {
+      record.status = 'completed';
+      if (done[1]) record.completedAt = done[1].trim();
+      rest = rest.slice(done[0].length);
+    }
+
+    const priority = /^\(([A-Z])\) /.exec(rest);
+    if (priority) {
+      record.priority = todoTxtPriority(priority[1]);
+      rest = rest.slice(priority[0].length);
+    }
+
+    // Creation date; the imported task gets a new one
+    rest = rest.replace(/^\d{4}-\d{2}-\d{2} /, '');
+
+    const words: string[] = [];
+    const tags: string[] = [];
+    rest.split(/\s+/).forEach(word => {
+      const extension = /^([a-z]+):([^\s/]\S*)$/i.exec(word);
+      if (/^[+@]\S+$/.test(word)) {
+        tags.push(word.slice(1));
+      } else if (extension && extension[1].toLowerCase() === 'due') {
+        record.due = extension[2];
+      } else if (extension && extension[1].toLowerCase() === 'pri') {
+        record.priority = todoTxtPriority(extension[2]);
+      } else if (extension && extension[1].toLowerCase() === 'status') {
+        record.status = extension[2];
+      } else {
+        words.push(word);
+      }
+    });
+
+    record.title = words.join(' ');
+    if (tags.length > 0) record.tags = tags.join(',');
+    return record;
+  });
+}
+
+// ---- iCalendar ----
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char) => char.toLowerCase() === 'n' ? '\n' : char);
+}
+
+function icsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// "DUE;VALUE=DATE:20240115" for calendar dates, "DUE:20240115T090000Z" otherwise
+function icsDue(name: string, due: string): string {
+  return isDateOnly(due) ? `${name};VALUE=DATE:${due.replace(/-/g, '')}` : `${name}:${icsDateTime(new Date(due))}`;
+}
+
+// Lines are limited to 75 octets; longer ones continue after CRLF + space
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    if (Buffer.byteLength(chunk + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * An iCalendar file with one VTODO per task, or one VEVENT per task with
+ * a due date (undated tasks have no place in a calendar and are left out).
+ */
+export function tasksToIcs(tasks: Task[], type: 'vtodo' | 'vevent' = 'vtodo', now = new Date()): string {
+  const component = type.toUpperCase();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//demo-cli//Tasks//EN', 'CALSCALE:GREGORIAN'];
+
+  tasks.forEach(task => {
+    if (type === 'vevent' && !task.due) return;
+
+    lines.push(`BEGIN:${component}`, `UID:${task.id}@demo-cli`, `DTSTAMP:${icsDateTime(now)}`);
+    lines.push(`SUMMARY:${escapeIcsText(task.title)}`);
+    if (task.description) lines.push(`DESCRIPTION:${escapeIcsText(task.description)}`);
+    if (task.due) lines.push(icsDue(type === 'vevent' ? 'DTSTART' : 'DUE', task.due));
+    lines.push(`PRIORITY:${ICS_PRIORITIES[task.priority]}`);
+    if (type === 'vtodo') {
+      lines.push(`STATUS:${ICS_STATUSES[task.status]}`);
+      if (task.completedAt) lines.push(`COMPLETED:${icsDateTime(new Date(task.completedAt))}`);
+    } else if (task.status === 'cancelled') {
+      lines.push('STATUS:CANCELLED');
+    }
+    if (task.tags.length > 0) lines.push(`CATEGORIES:${task.tags.map(escapeIcsText).join(',')}`);
+    lines.push(`END:${component}`);
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// DATE values become calendar dates; DATE-TIME values without Z are local time
+function parseIcsDate(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return value;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return hour
+    ? `${year}-${month}-${day}T${hour}:${minute}:${second}${utc || ''}`
+    : `${year}-${month}-${day}`;
+}
+
+function icsPriority(value: string): string | undefined {
+  const priority = Number(value);
+  if (!priority) return undefined;
+  if (priority === 1) return 'urgent';
+  if (priority < 5) return 'high';
+  return priority === 5 ? 'medium' : 'low';
+}
+
+/**
+ * One record per VTODO or VEVENT. Time zones (TZID) are not resolved;
+ * such times are read as local time.
+ */
+export function parseIcs(text: string): ImportRecord[] {
+  const records: ImportRecord[] = [];
+  let record: ImportRecord | undefined;
+  let isEvent = false;
+
+  text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).forEach(line => {
+    const match = /^([A-Za-z0-9-]+)(?:;[^:]*)?:(.*)$/.exec(line);
+    if (!match) return;
+    const name = match[1].toUpperCase();
+    const value = match[2];
+
+    if (name === 'BEGIN' && ['VTODO', 'VEVENT'].includes(value.toUpperCase())) {
+      record = {};
+      isEvent = value.toUpperCase() === 'VEVENT';
+      return;
+    }
+    if (!record) return;
+
+    switch (name) {
+      case 'END':
+        if (['VTODO', 'VEVENT'].includes(value.toUpperCase())) {
+          records.push(record);
+          record = undefined;
+        }
+        break;
+      case 'SUMMARY':
+        record.title = unescapeIcsText(value);
+        break;
+      case 'DESCRIPTION':
+        record.description = unescapeIcsText(value);
+        break;
+      case 'DUE':
+        record.due = parseIcsDate(value);
+        break;
+      case 'DTSTART':
+        if (isEvent) record.due = parseIcsDate(value);
+        break;
+      case 'PRIORITY':
+        if (icsPriority(value)) record.priority = icsPriority(value);
+        break;
+      case 'STATUS': {
+        const status = Object.entries(ICS_STATUSES).find(([, ics]) => ics === value.toUpperCase());
+        if (status) record.status = status[0];
+        break;
+      }
+      case 'COMPLETED':
+        record.completedAt = parseIcsDate(value);
+        break;
+      case 'CATEGORIES':
+        record.tags = [record.tags, ...value.split(/(?<!\\),/).map(unescapeIcsText)].filter(Boolean).join(',');
+        break;
+      case 'RRULE':
+        record.repeat = value;
+        break;
+    }
+  });
+
+  return records;
+}
+
+// ---- Validation ----
+
+/**
+ * A new task from an import record, validated like `task add` options.
+ * Throws with a message suitable for the import report.
+ */
+export function buildImportedTask(record: ImportRecord, defaultPriority: Task['priority'], now = new Date()): Task {
+  const title = (record.title || '').trim();
+  if (!title) {
+    throw new Error('Title is required');
+  }
+
+  const priority = (record.priority || defaultPriority).toLowerCase() as Task['priority'];
+  if (!PRIORITIES.includes(priority)) {
+    throw new Error(`Invalid priority "${record.priority}". Must be one of: ${PRIORITIES.join(', ')}`);
+  }
+
+  const status = (record.status || 'pending').toLowerCase() as Task['status'];
+  if (!STATUSES.includes(status)) {
+    throw new Error(`Invalid status "${record.status}". Must be one of: ${STATUSES.join(', ')}`);
+  }
+
+  const due = record.due ? parseDueDate(record.due, now) : undefined;
+  const repeat = record.repeat ? parseRepeatOption(record.repeat) || undefined : undefined;
+
+  let completedAt: string | undefined;
+  if (status === 'completed') {
+    const completed = record.completedAt ? parseDueDate(record.completedAt, now) : now.toISOString();
+    completedAt = new Date(isDateOnly(completed) ? `${completed}T00:00:00` : completed).toISOString();
+  }
+
+  const tags = record.tags ? [...new Set(record.tags.split(',').map(tag => tag.trim()).filter(Boolean))] : [];
+
+  return {
+    id: generateId(),
+    title,
+    description: record.description || '',
+    priority,
+    status,
+    ...(due ? { due } : {}),
+    tags,
+    ...(record.assignee ? { assignee: record.assignee.trim() } : {}),
+    ...(repeat ? { repeat } : {}),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ...(completedAt ? { completedAt } : {})
+  };
+}
+
+// Duplicate key: same title (any case) and same due value
+export function importKey(task: Pick<Task, 'title' | 'due'>): string {
+  return `${task.title.trim().toLowerCase()}|${task.due || ''}`;
+}
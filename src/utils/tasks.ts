@@ -0,0 +1,252 @@
+import inquirer from 'inquirer';
+import { dueTime, parseDueDate } from './dates';
+import { openPrerequisites } from './dependencies';
+import { minutesBetween } from './duration';
+import { formatRecurrence, nextDueDate, parseRecurrence } from './recurrence';
+import { unfinishedWork } from './subtasks';
+import type { ActiveTimer, Task } from '../types/index';
+
+/**
+ * Task helpers shared by the `task` subcommands and the task TUI.
+ */
+
+export const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+export const STATUSES = ['pending', 'in-progress', 'completed', 'cancelled'];
+
+// A change to save. Completing a task can also stop its timer and start
+// the next occurrence of its series.
+export interface TaskChange {
+  task: Task;
+  nextTask?: Task;
+  timerStopped?: boolean; // the caller removes the timer
+  waitingOn?: Task[];     // prerequisites still open, to warn about
+}
+
+export function generateId() {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+export function getPriorityIcon(priority) {
+  const icons = {
+    low: '🟢',
+    medium: '🟡',
+    high: '🟠',
+    urgent: '🔴'
+  };
+  return icons[priority] || '⚪';
+}
+
+export function getStatusIcon(status) {
+  const icons = {
+    pending: '⏳',
+    'in-progress': '🔄',
+    completed: '✅',
+    cancelled: '❌'
+  };
+  return icons[status] || '❓';
+}
+
+// Normalize a --repeat value to a stored RRULE ("" clears it)
+export function parseRepeatOption(value: string): string {
+  return value.trim().toLowerCase() === 'none' ? '' : formatRecurrence(parseRecurrence(value));
+}
+
+// Close a running timer into a time entry on its task
+export function withTimerEntry(task: Task, timer: ActiveTimer, end = new Date().toISOString()): Task {
+  const minutes = minutesBetween(timer.startedAt, end);
+  if (minutes === 0) return task;
+  return {
+    ...task,
+    timeEntries: [...(task.timeEntries || []), { start: timer.startedAt, end, minutes }],
+    updatedAt: end
+  };
+}
+
+/**
+ * The next occurrence of a repeating task that is being completed, or
+ * undefined when the task doesn't repeat or its schedule has run out.
+ * Logged time stays with the finished occurrence.
+ */
+export function buildNextOccurrence(task: Task): Task | undefined {
+  if (!task.repeat) return undefined;
+
+  const rule = parseRecurrence(task.repeat);
+  const occurrence = task.occurrence || 1;
+  // Monthly and yearly series keep the day they started on, so a series
+  // on the 31st returns to month-end after shorter months
+  const anchorDay = rule.freq === 'MONTHLY' || rule.freq === 'YEARLY'
+    ? task.anchorDay || (task.due ? new Date(dueTime(task.due)).getDate() : undefined)
+    : undefined;
+  const due = nextDueDate(rule, task.due, occurrence, anchorDay);
+  if (!due) return undefined;
+
+  const { completedAt, timeEntries, ...rest } = task;
+  return {
+    ...rest,
+    id: generateId(),
+    status: 'pending',
+    due,
+    checklist: task.checklist?.map(item => ({ ...item, done: false })),
+    seriesId: task.seriesId || task.id,
+    previousId: task.id,
+    occurrence: occurrence + 1,
+    anchorDay,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Validate and normalize changes to `task` (due dates to ISO, repeat
+ * rules to RRULE, "" clearing optional fields). `tasks` is the whole
+ * collection, used to check subtasks before completing. Throws with a
+ * message suitable for showing to the user.
+ */
+export function validateTaskUpdate(task: Task, updates: Record<string, any>, tasks: Task[]): Partial<Task> {
+  const normalized = { ...updates };
+
+  if (normalized.title !== undefined && !String(normalized.title).trim()) {
+    throw new Error('Title cannot be empty');
+  }
+
+  if (normalized.priority && !PRIORITIES.includes(normalized.priority)) {
+    throw new Error(`Invalid priority. Must be one of: ${PRIORITIES.join(', ')}`);
+  }
+
+  if (normalized.status && !STATUSES.includes(normalized.status)) {
+    throw new Error(`Invalid status. Must be one of: ${STATUSES.join(', ')}`);
+  }
+
+  if (normalized.due) {
+    normalized.due = parseDueDate(normalized.due);
+  } else if (normalized.due !== undefined) {
+    normalized.due = undefined;
+  }
+
+  // A moved due date starts the series over from its new day
+  if ('due' in normalized && normalized.due !== task.due) {
+    normalized.anchorDay = undefined;
+  }
+
+  if (normalized.repeat !== undefined) {
+    normalized.repeat = parseRepeatOption(normalized.repeat) || undefined;
+  }
+
+  if (normalized.status === 'completed' && task.status !== 'completed') {
+    const unfinished = unfinishedWork({ ...task, ...normalized }, tasks);
+    if (unfinished.subtasks.length > 0 || unfinished.items.length > 0) {
+      throw new Error(
+        `"${task.title}" has ${unfinished.subtasks.length} open subtask(s) and ${unfinished.items.length} unchecked item(s). ` +
+        `Use "task complete ${task.id} --force" to complete it anyway.`
+      );
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Complete `task` the way every command does: close its running `timer`
+ * into a time entry, stamp completedAt and build the next occurrence of a
+ * repeating task. `tasksById` is used to find open prerequisites.
+ */
+export function completeTask(
+  task: Task,
+  tasksById: Map<string, Task>,
+  timer?: ActiveTimer,
+  now = new Date().toISOString()
+): TaskChange {
+  const tracked = timer ? withTimerEntry(task, timer, now) : task;
+  const completed: Task = { ...tracked, status: 'completed', completedAt: now, updatedAt: now };
+  return {
+    task: completed,
+    nextTask: buildNextOccurrence(completed),
+    timerStopped: Boolean(timer),
+    waitingOn: openPrerequisites(task, tasksById)
+  };
+}
+
+/**
+ * Apply validated changes. A change to `completed` goes through
+ * completeTask(), with `tasksById` and the task's running `timer`.
+ */
+export function applyTaskUpdate(
+  task: Task,
+  updates: Partial<Task>,
+  tasksById: Map<string, Task> = new Map(),
+  timer?: ActiveTimer
+): TaskChange {
+  const now = new Date().toISOString();
+  const updatedTask: Task = { ...task, ...updates, updatedAt: now };
+  return updates.status === 'completed' && task.status !== 'completed'
+    ? completeTask(updatedTask, tasksById, timer, now)
+    : { task: updatedTask };
+}
+
+/**
+ * Interactive prompts for editing a task, as used by `task update -i` and
+ * the TUI. Answers still need to go through validateTaskUpdate().
+ */
+export async function promptTaskUpdates(task: Task): Promise<Record<string, any>> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'title',
+      message: 'Update title:',
+      default: task.title,
+      validate: (input) => input.trim().length > 0 || 'Title is required'
+    },
+    {
+      type: 'input',
+      name: 'description',
+      message: 'Update description:',
+      default: task.description
+    },
+    {
+      type: 'list',
+      name: 'priority',
+      message: 'Update priority:',
+      choices: PRIORITIES.map(p => ({
+        name: `${getPriorityIcon(p)} ${p.charAt(0).toUpperCase() + p.slice(1)}`,
+        value: p
+      })),
+      default: task.priority
+    },
+    {
+      type: 'list',
+      name: 'status',
+      message: 'Update status:',
+      choices: STATUSES.map(s => ({
+        name: `${getStatusIcon(s)} ${s.charAt(0).toUpperCase() + s.slice(1).replace('-', ' ')}`,
+        value: s
+      })),
+      default: task.status
+    },
+    {
+      type: 'input',
+      name: 'due',
+      message: 'Update due date (e.g. 2024-01-15, tomorrow, +3d):',
+      default: task.due,
+      validate: (input) => {
+        if (!input) return true;
+        try {
+          parseDueDate(input);
+          return true;
+        } catch (error) {
+          return error.message;
+        }
+      }
+    },
+    {
+      type: 'input',
+      name: 'tags',
+      message: 'Update tags (comma-separated):',
+      default: task.tags.join(', ')
+    }
+  ]);
+
+  return {
+    ...answers,
+    tags: answers.tags ? answers.tags.split(',').map(t => t.trim()).filter(Boolean) : []
+  };
+}
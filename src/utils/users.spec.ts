@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkUserFields,
+  compareWithProfile,
+  emailOwner,
+  mergeUsers,
+  parseUserImport,
+  reconcileWithProfile,
+  validateImportRow
+} from './users';
+import type { ProfileData, User } from '../types/index';
+
+function user(fields: Partial<User>): User {
+  return {
+    id: 'u1',
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    role: 'user',
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+    ...fields
+  };
+}
+
+// Only the fields compared with users matter here
+function profile(fields: Partial<ProfileData>): ProfileData {
+  return {
+    name: 'Ada Lovelace',
+    role: 'user',
+    age: 36,
+    email: 'ada@example.com',
+    ...fields
+  } as ProfileData;
+}
+
+describe('emailOwner', () => {
+  it('finds another user with the email, ignoring case and spaces', () => {
+    const users = [user({ id: 'u1' }), user({ id: 'u2', email: 'bob@example.com' })];
+    assert.equal(emailOwner(users, ' ADA@example.com ')?.id, 'u1');
+    assert.equal(emailOwner(users, 'ada@example.com', 'u1'), undefined);
+  });
+});
+
+describe('checkUserFields', () => {
+  it('trims emails and normalizes phone numbers, clearing an empty phone', () => {
+    assert.deepEqual(checkUserFields({ email: ' bob@example.com ', phone: '(415) 555-2671' }, []), { email: 'bob@example.com', phone: '+14155552671' });
+    assert.deepEqual(checkUserFields({ phone: ' ' }, []), { phone: undefined });
+  });
+
+  it('rejects taken emails unless they belong to the user being changed', () => {
+    const users = [user({ id: 'u1' })];
+    assert.throws(() => checkUserFields({ email: 'ADA@example.com' }, users), /Email ADA@example.com already belongs to Ada Lovelace \(u1\)/);
+    assert.doesNotThrow(() => checkUserFields({ email: 'ADA@example.com' }, users, 'u1'));
+  });
+
+  it('rejects invalid emails, roles and ages', () => {
+    assert.throws(() => checkUserFields({ email: 'ada@' }, []), /Invalid email "ada@"/);
+    assert.throws(() => checkUserFields({ role: 'owner' as User['role'] }, []), /Invalid role "owner"/);
+    assert.throws(() => checkUserFields({ age: 12.5 }, []), /Age must be a whole number from 0 to 150/);
+  });
+});
+
+describe('parseUserImport', () => {
+  it('maps CSV headers in any case, drops empty values and reports ignored columns', () => {
+    const { rows, ignored } = parseUserImport('Name,EMAIL,Team,age\n Ada , ada@example.com ,core,\n', 'csv');
+    assert.deepEqual(rows, [{ name: 'Ada', email: 'ada@example.com' }]);
+    assert.deepEqual(ignored, ['Team']);
+  });
+
+  it('reads the keys of every JSON item as columns', () => {
+    const { rows, ignored } = parseUserImport('[{"name":"Ada","age":36},{"email":"bob@example.com","id":"u9","phone":null}]', 'json');
+    assert.deepEqual(rows, [{ name: 'Ada', age: '36' }, { email: 'bob@example.com' }]);
+    assert.deepEqual(ignored, ['id']);
+  });
+
+  it('requires a JSON array', () => {
+    assert.throws(() => parseUserImport('{"name":"Ada"}', 'json'), /Expected a JSON array of users/);
+    assert.throws(() => parseUserImport('[{', 'json'), SyntaxError);
+  });
+});
+
+describe('validateImportRow', () => {
+  it('returns the checked fields of a valid row', () => {
+    assert.deepEqual(validateImportRow({ name: 'Ada', email: 'ada@example.com', role: 'Admin', age: '36', phone: '+44 20 7946 0958' }), {
+      fields: { name: 'Ada', email: 'ada@example.com', role: 'admin', age: 36, phone: '+442079460958' },
+      errors: []
+    });
+  });
+
+  it('reports every problem with a row', () => {
+    assert.deepEqual(validateImportRow({ role: 'owner', age: 'old' }).errors, [
+      'Name is required',
+      'Email is required',
+      'Invalid role "owner". Must be one of: admin, user, moderator, guest',
+      'Age must be a whole number from 0 to 150'
+    ]);
+  });
+
+  it('leaves email uniqueness to the import', () => {
+    assert.deepEqual(validateImportRow({ name: 'Ada', email: 'ada@example.com' }).errors, []);
+  });
+});
+
+describe('mergeUsers', () => {
+  const keep = user({ id: 'u1', phone: '+442079460958', createdAt: '2024-02-01T09:00:00.000Z' });
+  const drop = user({ id: 'u2', name: 'A. Lovelace', email: 'ADA@example.com', role: 'admin', age: 36, createdAt: '2024-01-01T09:00:00.000Z' });
+
+  it('keeps its own values, fills blanks from the other user and keeps the earlier creation date', () => {
+    const { merged, fields } = mergeUsers(keep, drop);
+    assert.deepEqual(merged, { ...keep, age: 36, createdAt: '2024-01-01T09:00:00.000Z' });
+    assert.deepEqual(fields.map(({ field, result }) => [field, result]), [
+      ['name', 'kept'],
+      ['email', 'same'],
+      ['role', 'kept'],
+      ['age', 'filled'],
+      ['phone', 'kept']
+    ]);
+  });
+
+  it('takes the listed fields from the other user when both have a value', () => {
+    const { merged, fields } = mergeUsers(keep, drop, ['name', 'role', 'phone']);
+    assert.equal(merged.name, 'A. Lovelace');
+    assert.equal(merged.role, 'admin');
+    assert.equal(merged.phone, '+442079460958');
+    assert.equal(merged.id, 'u1');
+    assert.deepEqual(fields.filter(field => field.result === 'taken').map(field => field.field), ['name', 'role']);
+  });
+});
+
+describe('compareWithProfile', () => {
+  it('reports each field and maps profile roles onto user roles', () => {
+    const comparison = compareWithProfile(user({ email: 'ADA@example.com' }), profile({ role: 'developer', name: 'Ada' }));
+    assert.deepEqual(comparison.map(({ field, status }) => [field, status]), [
+      ['name', 'conflict'],
+      ['email', 'same'],
+      ['role', 'same'],
+      ['age', 'profile only']
+    ]);
+  });
+});
+
+describe('reconcileWithProfile', () => {
+  it('copies conflicting and missing fields onto the user', () => {
+    const result = reconcileWithProfile(user({ name: 'Ada' }), profile({ role: 'admin' }), 'profile');
+    assert.deepEqual(result.copied, ['name', 'role', 'age']);
+    assert.equal(result.user.name, 'Ada Lovelace');
+    assert.equal(result.user.role, 'admin');
+    assert.equal(result.user.age, 36);
+  });
+
+  it('copies onto the profile, except its name, which is its key', () => {
+    const result = reconcileWithProfile(user({ name: 'Ada', role: 'admin', age: 37 }), profile({}), 'user');
+    assert.deepEqual(result.copied, ['role', 'age']);
+    assert.equal(result.profile.name, 'Ada Lovelace');
+    assert.equal(result.profile.role, 'admin');
+    assert.equal(result.profile.age, 37);
+  });
+
+  it('leaves a role without a profile counterpart in conflict', () => {
+    const result = reconcileWithProfile(user({ role: 'moderator' }), profile({}), 'user');
+    assert.deepEqual(result.copied, []);
+    assert.equal(result.profile.role, 'user');
+  });
+});
@@ -0,0 +1,254 @@
+import { getConfig } from './config';
+import { parseCsv } from './csv';
+import { normalizePhone } from './phone';
+import type { ProfileData, User } from '../types/index';
+
+/**
+ * Helpers for user records: field validation, reading import files, email
+ * uniqueness, merging two users into one, and comparing a user with the
+ * profile (profile.ts) that has their email. Profiles use their own role
+ * enum, mapped here.
+ */
+
+const ROLES: User['role'][] = ['admin', 'user', 'moderator', 'guest'];
+export const USER_FIELDS = ['name', 'email', 'role', 'age', 'phone'];
+
+export const MERGE_FIELDS = ['name', 'email', 'role', 'age', 'phone', 'profile'];
+
+export const PROFILE_TO_USER_ROLE: Record<ProfileData['role'], User['role']> = {
+  admin: 'admin',
+  developer: 'user',
+  designer: 'user',
+  user: 'user'
+};
+
+export const USER_TO_PROFILE_ROLE: Record<User['role'], ProfileData['role']> = {
+  admin: 'admin',
+  moderator: 'user',
+  user: 'user',
+  guest: 'user'
+};
+
+export type MergeResult = 'same' | 'kept' | 'taken' | 'filled';
+
+export interface MergedField {
+  field: string;
+  keep?: any;
+  drop?: any;
+  result: MergeResult;
+}
+
+export type ComparisonStatus = 'same' | 'conflict' | 'user only' | 'profile only';
+
+export interface FieldComparison {
+  field: string;
+  user?: any;
+  profile?: any;
+  status: ComparisonStatus;
+}
+
+/**
+ * Another user in `users` with this email, ignoring case. Pass active users
+ * only: emails of deleted users are not reserved, so restoring one is
+ * checked instead (trash restore, undo and redo).
+ */
+export function emailOwner(users: User[], email: string, exceptId?: string): User | undefined {
+  const wanted = email.trim().toLowerCase();
+  return users.find(user => user.id !== exceptId && user.email.toLowerCase() === wanted);
+}
+
+function validateEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+// Whole years
+function validateAge(age: number): boolean {
+  return Number.isInteger(age) && age >= 0 && age <= 150;
+}
+
+/**
+ * Validate and normalize user fields before they are written: email
+ * format and uniqueness (ignoring case), role, age range, and the phone
+ * number as E.164 (an empty phone clears it). Throws on the first problem.
+ */
+export function checkUserFields(fields: Partial<User>, users: User[], exceptId?: string): Partial<User> {
+  const checked = { ...fields };
+
+  if (fields.email !== undefined) {
+    checked.email = fields.email.trim();
+    if (!validateEmail(checked.email)) {
+      throw new Error(`Invalid email "${fields.email}"`);
+    }
+    const owner = emailOwner(users, checked.email, exceptId);
+    if (owner) {
+      throw new Error(`Email ${checked.email} already belongs to ${owner.name} (${owner.id})`);
+    }
+  }
+
+  if (fields.role !== undefined && !ROLES.includes(fields.role)) {
+    throw new Error(`Invalid role "${fields.role}". Must be one of: ${ROLES.join(', ')}`);
+  }
+
+  if (fields.age !== undefined && !validateAge(fields.age)) {
+    throw new Error('Age must be a whole number from 0 to 150');
+  }
+
+  if (fields.phone !== undefined) {
+    checked.phone = fields.phone.trim() ? normalizePhone(fields.phone, getConfig().defaultRegion) : undefined;
+  }
+
+  return checked;
+}
+
+// Import file values keyed by user field
+export type ImportRow = Record<string, string>;
+
+export function parseUserImport(text: string, format: string): { rows: ImportRow[]; ignored: string[] } {
+  let header: string[];
+  let values: unknown[][];
+
+  if (format === 'csv') {
+    [header = [], ...values] = parseCsv(text);
+  } else {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) {
+      throw new Error('Expected a JSON array of users');
+    }
+    header = [...new Set(data.flatMap(item => Object.keys(item || {})))];
+    values = data.map(item => header.map(key => item?.[key]));
+  }
+
+  const fields = header.map(column => USER_FIELDS.find(field => field === column.trim().toLowerCase()));
+  const rows = values.map(row => {
+    const record: ImportRow = {};
+    row.forEach((value, index) => {
+      if (fields[index] && value !== undefined && value !== null && String(value).trim()) {
+        record[fields[index]] = String(value).trim();
+      }
+    });
+    return record;
+  });
+  return { rows, ignored: header.filter((_, index) => !fields[index]) };
+}
+
+// The user fields of an import row, and everything wrong with it. Email
+// uniqueness is left to the import, which can skip or upsert duplicates.
+export function validateImportRow(row: ImportRow): { fields: Partial<User>; errors: string[] } {
+  const fields: Partial<User> = {};
+  const errors: string[] = [];
+
+  if (row.name) fields.name = row.name;
+  else errors.push('Name is required');
+
+  if (!row.email) errors.push('Email is required');
+
+  const values: Partial<User> = {
+    email: row.email,
+    role: row.role?.toLowerCase() as User['role'],
+    age: row.age ? Number(row.age) : undefined,
+    phone: row.phone
+  };
+  Object.entries(values).forEach(([field, value]) => {
+    if (value === undefined) return;
+    try {
+      Object.assign(fields, checkUserFields({ [field]: value }, []));
+    } catch (error) {
+      errors.push(error.message);
+    }
+  });
+
+  return { fields, errors };
+}
+
+function isBlank(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function sameValue(field: string, a: any, b: any): boolean {
+  return field === 'email' && !isBlank(a) && !isBlank(b)
+    ? String(a).toLowerCase() === String(b).toLowerCase()
+    : a === b;
+}
+
+/**
+ * Combine `drop` into `keep`. Blank fields of `keep` are filled from
+ * `drop`; where both have a value, `keep` wins unless the field is listed
+ * in `take`. The merged user keeps the earlier creation date.
+ */
+export function mergeUsers(keep: User, drop: User, take: string[] = []): { merged: User; fields: MergedField[] } {
+  const merged: User = { ...keep };
+  const fields: MergedField[] = [];
+
+  MERGE_FIELDS.forEach(field => {
+    const keepValue = keep[field];
+    const dropValue = drop[field];
+    if (isBlank(keepValue) && isBlank(dropValue)) return;
+
+    let result: MergeResult;
+    if (sameValue(field, keepValue, dropValue)) {
+      result = 'same';
+    } else if (isBlank(dropValue)) {
+      result = 'kept';
+    } else if (isBlank(keepValue)) {
+      result = 'filled';
+    } else {
+      result = take.includes(field) ? 'taken' : 'kept';
+    }
+
+    if (result === 'filled' || result === 'taken') merged[field] = dropValue;
+    fields.push({ field, keep: keepValue, drop: dropValue, result });
+  });
+
+  if (drop.createdAt < keep.createdAt) merged.createdAt = drop.createdAt;
+  return { merged, fields };
+}
+
+/**
+ * Field-by-field comparison of a user and a profile. Roles count as the
+ * same when the profile role maps to the user role.
+ */
+export function compareWithProfile(user: User, profile: ProfileData): FieldComparison[] {
+  return ['name', 'email', 'role', 'age'].map(field => {
+    const userValue = user[field];
+    const profileValue = profile[field];
+
+    let status: ComparisonStatus;
+    if (isBlank(userValue) && isBlank(profileValue)) status = 'same';
+    else if (isBlank(profileValue)) status = 'user only';
+    else if (isBlank(userValue)) status = 'profile only';
+    else if (field === 'role') status = PROFILE_TO_USER_ROLE[profile.role] === user.role ? 'same' : 'conflict';
+    else status = sameValue(field, userValue, profileValue) ? 'same' : 'conflict';
+
+    return { field, user: userValue, profile: profileValue, status };
+  });
+}
+
+/**
+ * Copy differing fields from one side to the other. A profile's name is
+ * its key, so it is never overwritten from the user.
+ */
+export function reconcileWithProfile(
+  user: User,
+  profile: ProfileData,
+  prefer: 'user' | 'profile'
+): { user: User; profile: ProfileData; copied: string[] } {
+  const nextUser = { ...user };
+  const nextProfile = { ...profile };
+  const copied: string[] = [];
+
+  // Roles without a counterpart (a moderator's profile) can stay in conflict
+  compareWithProfile(user, profile).forEach(({ field, status }) => {
+    if (prefer === 'profile' && (status === 'conflict' || status === 'profile only')) {
+      nextUser[field] = field === 'role' ? PROFILE_TO_USER_ROLE[profile.role] : profile[field];
+      copied.push(field);
+    } else if (prefer === 'user' && (status === 'conflict' || status === 'user only') && field !== 'name') {
+      const value = field === 'role' ? USER_TO_PROFILE_ROLE[user.role] : user[field];
+      if (value === profile[field]) return;
+      nextProfile[field] = value;
+      copied.push(field);
+    }
+  });
+
+  return { user: nextUser, profile: nextProfile, copied };
+}